@@ -0,0 +1,115 @@
+/**
+ * Detection latency per pool update, full search vs incremental, on synthetic V2 graphs
+ * Usage: npm run bench [-- <edges> ...]   (default: 1000 10000)
+ */
+import type { Address } from 'viem';
+import { ArbitrageDetector } from '../src/services/arbitrage-detector.js';
+import { TokenRegistry } from '../src/services/token-registry.js';
+import type { PoolSubscription } from '../src/adapters/index.js';
+import { getPairEdges } from '../src/adapters/uniswap-v2.js';
+import { DexType } from '../src/types/index.js';
+
+const BASE_TOKENS = 4;
+const UPDATES = 200;
+const FULL_RUNS = 3;
+const ROUTER = '0x0000000000000000000000000000000000000001' as Address;
+
+// Deterministic pseudo-random numbers, so runs are comparable
+let seed = 42;
+const random = () => (seed = (seed * 1_103_515_245 + 12_345) % 2 ** 31) / 2 ** 31;
+
+const toAddress = (prefix: number, i: number) =>
+  `0x${prefix.toString(16)}${i.toString(16).padStart(39, '0')}` as Address;
+
+/**
+ * Pools between a few hub (base) tokens and a long tail, as on a real chain: most pools
+ * touch a hub, and prices agree across pools to within a few basis points
+ */
+function buildPools(edges: number): PoolSubscription[] {
+  const tokenCount = Math.max(BASE_TOKENS + 2, Math.round(edges / 8));
+  const prices = Array.from({ length: tokenCount }, () => BigInt(1 + Math.floor(random() * 1_000)));
+  const pools: PoolSubscription[] = [];
+  const seen = new Set<string>();
+
+  while (pools.length < edges / 2) {
+    const a = random() < 0.8 ? Math.floor(random() * BASE_TOKENS) : Math.floor(random() * tokenCount);
+    const b = Math.floor(random() * tokenCount);
+    const key = `${Math.min(a, b)}-${Math.max(a, b)}-${pools.length % 3}`;
+    if (a === b || seen.has(key)) continue;
+    seen.add(key);
+
+    const [token0, token1] = a < b ? [a, b] : [b, a];
+    const reserve = 10n ** 24n;
+    pools.push({
+      pool: toAddress(2, pools.length),
+      dex: 'bench',
+      dexType: DexType.UniswapV2,
+      router: ROUTER,
+      token0: toAddress(1, token0),
+      token1: toAddress(1, token1),
+      fee: 30,
+      reserve0: reserve,
+      reserve1: (reserve * prices[token0]! * BigInt(9_995 + Math.floor(random() * 10))) / (prices[token1]! * 10_000n),
+    });
+  }
+  return pools;
+}
+
+function percentile(samples: number[], p: number): number {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+function format(samples: number[]): string {
+  const mean = samples.reduce((sum, x) => sum + x, 0) / samples.length;
+  return `mean ${mean.toFixed(3)} ms, p50 ${percentile(samples, 0.5).toFixed(3)} ms, p99 ${percentile(samples, 0.99).toFixed(3)} ms`;
+}
+
+function bench(edgeCount: number): void {
+  const tokens = new TokenRegistry({ chainId: 1, tokens: [], pairs: [], baseTokens: [] });
+  const detector = new ArbitrageDetector(1, tokens, 50);
+  const baseTokens = Array.from({ length: BASE_TOKENS }, (_, i) => toAddress(1, i));
+  const pools = buildPools(edgeCount);
+
+  let start = performance.now();
+  for (const pool of pools) {
+    for (const edge of getPairEdges(pool, tokens)) detector.addEdge(edge);
+  }
+  const indexMs = performance.now() - start;
+  const stats = detector.getStats();
+
+  // A swap moves one pool's price up to 1% off its starting point; both search modes then
+  // look for opportunities
+  const initial = pools.map(pool => pool.reserve1 ?? 0n);
+  const update = () => {
+    const index = Math.floor(random() * pools.length);
+    const pool = pools[index]!;
+    pool.reserve1 = (initial[index]! * BigInt(9_900 + Math.floor(random() * 200))) / 10_000n;
+    for (const edge of getPairEdges(pool, tokens)) detector.addEdge(edge);
+  };
+
+  const full: number[] = [];
+  for (let i = 0; i < FULL_RUNS; i++) {
+    update();
+    start = performance.now();
+    detector.findArbitrageOpportunities(baseTokens, 0n);
+    full.push(performance.now() - start);
+  }
+
+  const incremental: number[] = [];
+  for (let i = 0; i < UPDATES; i++) {
+    update();
+    start = performance.now();
+    detector.findChangedOpportunities(baseTokens, 0n);
+    incremental.push(performance.now() - start);
+  }
+
+  console.log(`${stats.edges} edges, ${stats.vertices} tokens, ${stats.cycles} indexed cycles (indexed in ${indexMs.toFixed(0)} ms)`);
+  console.log(`  full search:  ${format(full)}`);
+  console.log(`  incremental:  ${format(incremental)}`);
+}
+
+const sizes = process.argv.slice(2).map(Number).filter(n => n > 0);
+for (const edges of sizes.length > 0 ? sizes : [1_000, 10_000]) {
+  bench(edges);
+}
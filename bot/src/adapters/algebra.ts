@@ -0,0 +1,227 @@
+import { getContract, parseAbiItem, parseEventLogs, type Address, type Hex, type Log, type PublicClient } from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool, V3PoolState } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { getPoolAddresses, toLogUpdate } from './dex-adapter.js';
+import { countTicksCrossed, getTickEdges, isNearSnapshotEdge, loadTickSnapshot, quoteTicks } from './uniswap-v3.js';
+import { applyLiquidityDelta, applySwap, applyTickLiquidityDelta } from '../utils/uniswap-v3-math.js';
+
+const POOL_CREATED = parseAbiItem('event Pool(address indexed token0, address indexed token1, address pool)');
+
+// Algebra 1.9 (Camelot V3) layout: the dynamic fee is kept per swap direction
+const POOL_ABI = [
+  parseAbiItem('function globalState() view returns (uint160 price, int24 tick, uint16 feeZto, uint16 feeOtz, uint16 timepointIndex, uint8 communityFeeToken0, uint8 communityFeeToken1, bool unlocked)'),
+  parseAbiItem('function liquidity() view returns (uint128)'),
+  parseAbiItem('function tickSpacing() view returns (int24)'),
+  parseAbiItem('function tickTable(int16 wordPosition) view returns (uint256)'),
+  parseAbiItem('function ticks(int24 tick) view returns (uint128 liquidityTotal, int128 liquidityDelta, uint256 outerFeeGrowth0Token, uint256 outerFeeGrowth1Token, int56 outerTickCumulative, uint160 outerSecondsPerLiquidity, uint32 outerSecondsSpent, bool initialized)'),
+] as const;
+
+const POOL_EVENTS = [
+  parseAbiItem('event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 price, uint128 liquidity, int24 tick)'),
+  parseAbiItem('event Mint(address sender, address indexed owner, int24 indexed bottomTick, int24 indexed topTick, uint128 liquidityAmount, uint256 amount0, uint256 amount1)'),
+  parseAbiItem('event Burn(address indexed owner, int24 indexed bottomTick, int24 indexed topTick, uint128 liquidityAmount, uint256 amount0, uint256 amount1)'),
+  parseAbiItem('event Fee(uint16 feeZto, uint16 feeOtz)'),
+] as const;
+
+const SWAP_GAS = 110_000n;
+
+/**
+ * Algebra pools (Camelot V3): concentrated liquidity with V3 tick math, a dynamic fee per
+ * swap direction, and a router that takes no fee tier
+ */
+export class AlgebraAdapter implements DexAdapter {
+  readonly type = DexType.Algebra;
+  readonly events = POOL_EVENTS;
+
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    const logs = await client.getLogs({ address: dex.factory, event: POOL_CREATED, fromBlock, toBlock });
+    return logs.flatMap(log => {
+      const { token0, token1, pool } = log.args;
+      if (!token0 || !token1 || !pool) return [];
+      return [{
+        dex: dex.name,
+        dexType: dex.type,
+        factory: dex.factory,
+        address: pool,
+        token0,
+        token1,
+        createdBlock: log.blockNumber ?? toBlock,
+      }];
+    });
+  }
+
+  /**
+   * Load the tick snapshot from the pool's tick table
+   */
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const pool = getContract({ address: poolInfo.address, abi: POOL_ABI, client });
+
+    const [globalState, liquidity, tickSpacing] = await Promise.all([
+      pool.read.globalState(),
+      pool.read.liquidity(),
+      pool.read.tickSpacing(),
+    ]);
+    const [sqrtPriceX96, tick, feeZto, feeOtz] = globalState;
+
+    const v3 = await loadPoolTicks(client, poolInfo.address, { sqrtPriceX96, tick, liquidity, fee: feeZto, tickSpacing });
+
+    const sub: PoolSubscription = {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: DexType.Algebra,
+      router: dex.router,
+      token0: poolInfo.token0,
+      token1: poolInfo.token1,
+      fee: 0,
+      v3,
+    };
+    setFees(sub, feeZto, feeOtz);
+    return sub;
+  }
+
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getPoolAddresses(subs);
+  }
+
+  /**
+   * Swap/Mint/Burn logs keep each tick snapshot current; Fee logs carry fee changes
+   */
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byAddress = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    return parseEventLogs({ abi: POOL_EVENTS, logs }).flatMap(log => {
+      const sub = byAddress.get(log.address.toLowerCase());
+      const update = sub && getLogUpdate(sub, log);
+      return sub && update ? [toLogUpdate(log, sub, update.apply, update.applyUnread)] : [];
+    });
+  }
+
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    if (subs.length === 0) return [];
+    const logs = await client.getLogs({ address: getPoolAddresses(subs), events: POOL_EVENTS, fromBlock, toBlock });
+    return this.decodeLogs(client, subs, logs);
+  }
+
+  /**
+   * Re-read price, liquidity and both fees; the tick snapshot is kept current by Mint/Burn logs
+   * and reloaded once the price reaches its outermost words
+   */
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    const [globalState, liquidity] = await Promise.all([
+      client.readContract({ address: sub.pool, abi: POOL_ABI, functionName: 'globalState', blockNumber }),
+      client.readContract({ address: sub.pool, abi: POOL_ABI, functionName: 'liquidity', blockNumber }),
+    ]);
+    const [sqrtPriceX96, tick, feeZto, feeOtz] = globalState;
+    const reloaded = sub.v3 && isNearSnapshotEdge(sub.v3, tick)
+      ? await loadPoolTicks(client, sub.pool, { ...sub.v3, sqrtPriceX96, tick, liquidity }, blockNumber)
+      : undefined;
+
+    return () => {
+      if (reloaded) {
+        sub.v3 = reloaded;
+        sub.ticksBlock = blockNumber;
+      } else if (sub.v3) applySwap(sub.v3, sqrtPriceX96, tick, liquidity);
+      else return;
+      setFees(sub, feeZto, feeOtz);
+    };
+  }
+
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    return getTickEdges(sub, tokens);
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    return quoteTicks(edge, amountIn);
+  }
+
+  encodeSwapData(): Hex {
+    return '0x';
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+
+  getTicksCrossed(edge: Edge, amountIn: bigint): number {
+    return countTicksCrossed(edge, amountIn);
+  }
+}
+
+/**
+ * Tick snapshot of a pool from its tickTable and ticks, optionally at a past block
+ */
+function loadPoolTicks(
+  client: PublicClient,
+  pool: Address,
+  current: Pick<V3PoolState, 'sqrtPriceX96' | 'tick' | 'liquidity' | 'fee' | 'tickSpacing'>,
+  blockNumber?: bigint
+): Promise<V3PoolState> {
+  return loadTickSnapshot(
+    current,
+    word => client.readContract({ address: pool, abi: POOL_ABI, functionName: 'tickTable', args: [word], blockNumber }),
+    async tick => {
+      const data = await client.readContract({ address: pool, abi: POOL_ABI, functionName: 'ticks', args: [tick], blockNumber });
+      return { liquidityGross: data[0], liquidityNet: data[1] };
+    }
+  );
+}
+
+/**
+ * Set a pool's per-direction fees (hundredths of a bip)
+ */
+function setFees(sub: PoolSubscription, feeZto: number, feeOtz: number): void {
+  if (!sub.v3) return;
+  sub.v3.fee = feeZto;
+  sub.v3.feeOneForZero = feeOtz;
+  sub.fee = feeZto / 100;
+  sub.feeOneForZero = feeOtz / 100;
+}
+
+/**
+ * Translate an Algebra Swap/Mint/Burn/Fee log into a state update for its pool
+ */
+function getLogUpdate(
+  sub: PoolSubscription,
+  log: {
+    eventName: 'Swap' | 'Mint' | 'Burn' | 'Fee';
+    args: {
+      price?: bigint;
+      liquidity?: bigint;
+      tick?: number;
+      bottomTick?: number;
+      topTick?: number;
+      liquidityAmount?: bigint;
+      feeZto?: number;
+      feeOtz?: number;
+    };
+  }
+): Pick<PoolLogUpdate, 'apply' | 'applyUnread'> | undefined {
+  const { price, liquidity, tick, bottomTick, topTick, liquidityAmount, feeZto, feeOtz } = log.args;
+
+  if (log.eventName === 'Swap') {
+    if (price === undefined || liquidity === undefined || tick === undefined) return undefined;
+    return {
+      apply: () => {
+        if (sub.v3) applySwap(sub.v3, price, tick, liquidity);
+      },
+    };
+  }
+
+  if (log.eventName === 'Fee') {
+    if (feeZto === undefined || feeOtz === undefined) return undefined;
+    return { apply: () => setFees(sub, feeZto, feeOtz) };
+  }
+
+  if (bottomTick === undefined || topTick === undefined || liquidityAmount === undefined) return undefined;
+  const delta = log.eventName === 'Mint' ? liquidityAmount : -liquidityAmount;
+  return {
+    apply: () => {
+      if (sub.v3) applyLiquidityDelta(sub.v3, bottomTick, topTick, delta);
+    },
+    // A state read of a later block has the in-range liquidity, not the ticks
+    applyUnread: () => {
+      if (sub.v3) applyTickLiquidityDelta(sub.v3, bottomTick, topTick, delta);
+    },
+  };
+}
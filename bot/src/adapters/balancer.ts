@@ -0,0 +1,299 @@
+import {
+  encodeAbiParameters,
+  parseAbiItem,
+  parseAbiParameters,
+  parseEventLogs,
+  type Address,
+  type Hash,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { edgeWeight, getRouterAddresses, groupByRouter, toLogUpdate } from './dex-adapter.js';
+import { getAmountOut, getSpotRate, getTokenIndex } from '../utils/balancer-math.js';
+
+// Balancer pools register with the Vault; their tokens follow in a separate event of the same transaction
+const POOL_REGISTERED = parseAbiItem('event PoolRegistered(bytes32 indexed poolId, address indexed poolAddress, uint8 specialization)');
+const TOKENS_REGISTERED = parseAbiItem('event TokensRegistered(bytes32 indexed poolId, address[] tokens, address[] assetManagers)');
+
+// Pool balances are held (and swapped) by the Vault; parameters are read from the pool
+const VAULT_ABI = [
+  parseAbiItem('function getPoolTokens(bytes32 poolId) view returns (address[] tokens, uint256[] balances, uint256 lastChangeBlock)'),
+] as const;
+
+const POOL_ABI = [
+  parseAbiItem('function getSwapFeePercentage() view returns (uint256)'),
+  parseAbiItem('function getScalingFactors() view returns (uint256[])'),
+  parseAbiItem('function getNormalizedWeights() view returns (uint256[])'),
+  parseAbiItem('function getAmplificationParameter() view returns (uint256 value, bool isUpdating, uint256 precision)'),
+  parseAbiItem('function getBptIndex() view returns (uint256)'),
+] as const;
+
+const VAULT_EVENTS = [
+  parseAbiItem('event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)'),
+  parseAbiItem('event PoolBalanceChanged(bytes32 indexed poolId, address indexed liquidityProvider, address[] tokens, int256[] deltas, uint256[] protocolFeeAmounts)'),
+] as const;
+
+const SWAP_GAS = 110_000n;
+
+/**
+ * Balancer V2 weighted and (composable) stable pools, swapped through the Vault
+ * Pools are keyed by address; the Vault identifies them by their Balancer PoolId
+ */
+export class BalancerAdapter implements DexAdapter {
+  readonly type = DexType.Balancer;
+  readonly events = VAULT_EVENTS;
+
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    const [registered, tokenLogs] = await Promise.all([
+      client.getLogs({ address: dex.factory, event: POOL_REGISTERED, fromBlock, toBlock }),
+      client.getLogs({ address: dex.factory, event: TOKENS_REGISTERED, fromBlock, toBlock }),
+    ]);
+
+    const tokensById = new Map<string, readonly Address[]>();
+    for (const log of tokenLogs) {
+      const { poolId, tokens } = log.args;
+      if (poolId && tokens) tokensById.set(poolId, tokens);
+    }
+
+    return registered.flatMap(log => {
+      const { poolId, poolAddress } = log.args;
+      const coins = poolId && tokensById.get(poolId);
+      if (!poolId || !poolAddress || !coins || coins.length < 2) return [];
+      return [{
+        dex: dex.name,
+        dexType: dex.type,
+        factory: dex.factory,
+        address: poolAddress,
+        token0: coins[0] as Address,
+        token1: coins[1] as Address,
+        coins: [...coins],
+        poolId,
+        createdBlock: log.blockNumber ?? toBlock,
+      }];
+    });
+  }
+
+  /**
+   * Other pool types (linear, managed, ...) expose neither weights nor amplification and are skipped
+   */
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const poolId = poolInfo.poolId;
+    if (!poolId) return null;
+
+    const pool = { address: poolInfo.address, abi: POOL_ABI } as const;
+    const [{ tokens }, weights, amp, bptIndex] = await Promise.all([
+      readVault(client, dex.router, poolId),
+      client.readContract({ ...pool, functionName: 'getNormalizedWeights' }).catch(() => undefined),
+      client.readContract({ ...pool, functionName: 'getAmplificationParameter' }).catch(() => undefined),
+      client.readContract({ ...pool, functionName: 'getBptIndex' }).catch(() => undefined),
+    ]);
+    if (!weights && !amp) return null;
+
+    const [token0, token1] = tokens.filter((_, i) => BigInt(i) !== bptIndex);
+    if (!token0 || !token1) return null;
+
+    const sub: PoolSubscription = {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: DexType.Balancer,
+      router: dex.router,
+      token0,
+      token1,
+      fee: 0,
+      balancer: {
+        poolId,
+        tokens,
+        balances: tokens.map(() => 0n),
+        scalingFactors: tokens.map(() => 10n ** 18n),
+        swapFee: 0n,
+        weights: weights && [...weights],
+        amp: amp?.[0],
+        bptIndex: bptIndex !== undefined ? Number(bptIndex) : undefined,
+      },
+    };
+
+    (await this.readState(client, sub))();
+    return sub;
+  }
+
+  /**
+   * Pools are watched through the Vault, whose logs are matched to monitored pools on Balancer PoolId
+   */
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getRouterAddresses(subs);
+  }
+
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byId = indexByPoolId(subs);
+
+    return parseEventLogs({ abi: VAULT_EVENTS, logs }).flatMap(log => {
+      const sub = byId.get(log.args.poolId.toLowerCase());
+      const apply = sub && getLogUpdate(sub, log);
+      return sub && apply ? [toLogUpdate(log, sub, apply)] : [];
+    });
+  }
+
+  /**
+   * Backfills filter the Vault's logs on the monitored PoolIds
+   */
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    const logs = await Promise.all(Array.from(groupByRouter(subs), ([vault, pools]) => {
+      const args = { poolId: getPoolIds(pools) };
+      return Promise.all([
+        client.getLogs({ address: vault, event: VAULT_EVENTS[0], args, fromBlock, toBlock }),
+        client.getLogs({ address: vault, event: VAULT_EVENTS[1], args, fromBlock, toBlock }),
+      ]);
+    }));
+    return this.decodeLogs(client, subs, logs.flat(2));
+  }
+
+  /**
+   * Read Vault balances, swap fee, scaling factors (which follow token rates) and amplification
+   */
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    const state = sub.balancer;
+    if (!state) return () => {};
+
+    const pool = { address: sub.pool, abi: POOL_ABI, blockNumber } as const;
+    const [{ balances }, swapFee, scalingFactors, amp] = await Promise.all([
+      readVault(client, sub.router, state.poolId, blockNumber),
+      client.readContract({ ...pool, functionName: 'getSwapFeePercentage' }),
+      client.readContract({ ...pool, functionName: 'getScalingFactors' }),
+      state.amp !== undefined
+        ? client.readContract({ ...pool, functionName: 'getAmplificationParameter' })
+        : Promise.resolve(undefined),
+    ]);
+
+    return () => {
+      const balancer = sub.balancer;
+      if (!balancer) return;
+
+      balancer.balances = [...balances];
+      balancer.swapFee = swapFee;
+      balancer.scalingFactors = [...scalingFactors];
+      if (amp) balancer.amp = amp[0];
+
+      sub.fee = Number(swapFee) / 1e14; // 1e18 fixed point to basis points
+    };
+  }
+
+  /**
+   * Edges for every ordered token pair (a composable pool's own BPT excluded)
+   */
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    const state = sub.balancer;
+    if (!state) return [];
+
+    const coins = state.tokens.map((token, i) => ({ token, i })).filter(({ i }) => i !== state.bptIndex);
+
+    return coins.flatMap(({ token: from, i }) => coins.flatMap(({ token: to, i: j }) => (i === j ? [] : [{
+      from,
+      to,
+      pool: sub.pool,
+      dex: sub.dex,
+      dexType: sub.dexType,
+      router: sub.router,
+      weight: edgeWeight(getSpotRate(state, i, j, tokens.getProbeAmount(from))),
+      reserve0: state.balances[i] ?? 0n,
+      reserve1: state.balances[j] ?? 0n,
+      fee: sub.fee,
+      fromDecimals: tokens.getDecimals(from),
+      toDecimals: tokens.getDecimals(to),
+      balancer: state,
+    }])));
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    if (!edge.balancer) return null;
+    const i = getTokenIndex(edge.balancer, edge.from);
+    const j = getTokenIndex(edge.balancer, edge.to);
+    if (i < 0 || j < 0) return null;
+    const amountOut = getAmountOut(edge.balancer, i, j, amountIn);
+    return amountOut > 0n ? amountOut : null;
+  }
+
+  encodeSwapData(edge: Edge): Hex {
+    if (!edge.balancer) return '0x';
+    return encodeAbiParameters(parseAbiParameters('bytes32'), [edge.balancer.poolId]);
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+}
+
+/**
+ * A pool's registered tokens and balances as held by the Vault
+ */
+async function readVault(
+  client: PublicClient,
+  vault: Address,
+  poolId: Hash,
+  blockNumber?: bigint
+): Promise<{ tokens: Address[]; balances: readonly bigint[] }> {
+  const [tokens, balances] = await client.readContract({
+    address: vault,
+    abi: VAULT_ABI,
+    functionName: 'getPoolTokens',
+    args: [poolId],
+    blockNumber,
+  });
+  return { tokens: [...tokens], balances };
+}
+
+function getPoolIds(subs: PoolSubscription[]): Hash[] {
+  return subs.flatMap(sub => (sub.balancer ? [sub.balancer.poolId] : []));
+}
+
+function indexByPoolId(subs: PoolSubscription[]): Map<string, PoolSubscription> {
+  return new Map(subs.flatMap(sub => (sub.balancer ? [[sub.balancer.poolId.toLowerCase(), sub] as const] : [])));
+}
+
+/**
+ * Translate a Vault Swap/PoolBalanceChanged log into a balance update for its pool
+ * Joins and exits also pay protocol fees out of the pool's balances
+ */
+function getLogUpdate(
+  sub: PoolSubscription,
+  log: {
+    eventName: 'Swap' | 'PoolBalanceChanged';
+    args: {
+      tokenIn?: Address;
+      tokenOut?: Address;
+      amountIn?: bigint;
+      amountOut?: bigint;
+      tokens?: readonly Address[];
+      deltas?: readonly bigint[];
+      protocolFeeAmounts?: readonly bigint[];
+    };
+  }
+): (() => void) | undefined {
+  const state = sub.balancer;
+  if (!state) return undefined;
+
+  const indexOf = (token: Address) => getTokenIndex(state, token);
+  const changes: [number, bigint][] = [];
+
+  if (log.eventName === 'Swap') {
+    const { tokenIn, tokenOut, amountIn, amountOut } = log.args;
+    if (!tokenIn || !tokenOut || amountIn === undefined || amountOut === undefined) return undefined;
+    changes.push([indexOf(tokenIn), amountIn], [indexOf(tokenOut), -amountOut]);
+  } else {
+    const { tokens, deltas, protocolFeeAmounts } = log.args;
+    if (!tokens || !deltas || !protocolFeeAmounts) return undefined;
+    tokens.forEach((token, k) => changes.push([indexOf(token), (deltas[k] ?? 0n) - (protocolFeeAmounts[k] ?? 0n)]));
+  }
+  if (changes.some(([i]) => i < 0)) return undefined;
+
+  return () => {
+    const balances = sub.balancer?.balances;
+    if (!balances) return;
+    for (const [i, delta] of changes) {
+      balances[i] = (balances[i] ?? 0n) + delta;
+    }
+  };
+}
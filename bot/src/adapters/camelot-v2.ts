@@ -0,0 +1,116 @@
+import { getContract, parseAbiItem, parseEventLogs, type Address, type Hex, type Log, type PublicClient } from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { getPoolAddresses, toLogUpdate } from './dex-adapter.js';
+import { fetchPairs, getPairEdges } from './uniswap-v2.js';
+import { getAmountOut } from '../utils/uniswap-v2-math.js';
+
+// Camelot pairs return each direction's fee alongside the reserves
+const PAIR_ABI = [
+  parseAbiItem('function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint16 token0FeePercent, uint16 token1FeePercent)'),
+  parseAbiItem('function stableSwap() view returns (bool)'),
+] as const;
+
+const PAIR_EVENTS = [
+  parseAbiItem('event Sync(uint112 reserve0, uint112 reserve1)'),
+  parseAbiItem('event FeePercentUpdated(uint16 token0FeePercent, uint16 token1FeePercent)'),
+] as const;
+
+const SWAP_GAS = 95_000n; // The router only offers fee-on-transfer swaps, which re-read balances
+
+/**
+ * Camelot V2: Uniswap V2 fork whose pairs charge a dynamic fee per input token
+ * Stable (x³y+y³x) pairs are skipped
+ */
+export class CamelotV2Adapter implements DexAdapter {
+  readonly type = DexType.CamelotV2;
+  readonly events = PAIR_EVENTS;
+
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    return fetchPairs(client, dex, fromBlock, toBlock);
+  }
+
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const pair = getContract({ address: poolInfo.address, abi: PAIR_ABI, client });
+    const [[reserve0, reserve1, fee0, fee1], stable] = await Promise.all([
+      pair.read.getReserves(),
+      pair.read.stableSwap(),
+    ]);
+    if (stable) return null;
+
+    return {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: DexType.CamelotV2,
+      router: dex.router,
+      token0: poolInfo.token0,
+      token1: poolInfo.token1,
+      fee: toBps(fee0),
+      feeOneForZero: toBps(fee1),
+      reserve0,
+      reserve1,
+    };
+  }
+
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getPoolAddresses(subs);
+  }
+
+  /**
+   * Sync logs carry reserves, FeePercentUpdated logs the new per-direction fees
+   */
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byAddress = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    return parseEventLogs({ abi: PAIR_EVENTS, logs }).flatMap(log => {
+      const sub = byAddress.get(log.address.toLowerCase());
+      if (!sub) return [];
+      if (log.eventName === 'Sync') {
+        const { reserve0, reserve1 } = log.args;
+        return [toLogUpdate(log, sub, () => Object.assign(sub, { reserve0, reserve1 }))];
+      }
+      const { token0FeePercent, token1FeePercent } = log.args;
+      return [toLogUpdate(log, sub, () => Object.assign(sub, { fee: toBps(token0FeePercent), feeOneForZero: toBps(token1FeePercent) }))];
+    });
+  }
+
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    if (subs.length === 0) return [];
+    const logs = await client.getLogs({ address: getPoolAddresses(subs), events: PAIR_EVENTS, fromBlock, toBlock });
+    return this.decodeLogs(client, subs, logs);
+  }
+
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    const [reserve0, reserve1, fee0, fee1] = await client.readContract({
+      address: sub.pool,
+      abi: PAIR_ABI,
+      functionName: 'getReserves',
+      blockNumber,
+    });
+    return () => Object.assign(sub, { reserve0, reserve1, fee: toBps(fee0), feeOneForZero: toBps(fee1) });
+  }
+
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    return getPairEdges(sub, tokens);
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    return getAmountOut(edge.reserve0, edge.reserve1, amountIn, edge.fee);
+  }
+
+  encodeSwapData(): Hex {
+    return '0x';
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+}
+
+/**
+ * Camelot fee percent (FEE_DENOMINATOR = 100000) to basis points
+ */
+function toBps(feePercent: number): number {
+  return feePercent / 10;
+}
@@ -0,0 +1,289 @@
+import {
+  decodeFunctionResult,
+  encodeAbiParameters,
+  encodeFunctionData,
+  parseAbiItem,
+  parseAbiParameters,
+  parseEventLogs,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type ContractFunctionName,
+  type Hash,
+  type Hex,
+  type Log,
+  type PublicClient,
+  type ReadContractParameters,
+  type ReadContractReturnType,
+} from 'viem';
+import type { DexConfig, Edge, PoolInfo } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { edgeWeight, getPoolAddresses, toLogUpdate } from './dex-adapter.js';
+import { getCoinIndex, getDy, getRateForDecimals, getSpotRate } from '../utils/curve-math.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'curve-adapter' });
+
+// Newer pools index coins by uint256, legacy pools by int128
+const COINS_ABI = [parseAbiItem('function coins(uint256 i) view returns (address)')] as const;
+const LEGACY_COINS_ABI = [parseAbiItem('function coins(int128 i) view returns (address)')] as const;
+
+const POOL_ABI = [
+  parseAbiItem('function balances(uint256 i) view returns (uint256)'),
+  parseAbiItem('function A() view returns (uint256)'),
+  parseAbiItem('function A_precise() view returns (uint256)'),
+  parseAbiItem('function fee() view returns (uint256)'),
+  parseAbiItem('function get_virtual_price() view returns (uint256)'),
+  parseAbiItem('function stored_rates() view returns (uint256[])'),
+] as const;
+
+const LEGACY_POOL_ABI = [
+  parseAbiItem('function balances(int128 i) view returns (uint256)'),
+] as const;
+
+// State-changing events of StableSwap pools (legacy, factory and NG), for every coin count
+const POOL_EVENTS = [
+  parseAbiItem('event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)'),
+  parseAbiItem('event TokenExchangeUnderlying(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)'),
+  parseAbiItem('event AddLiquidity(address indexed provider, uint256[] token_amounts, uint256[] fees, uint256 invariant, uint256 token_supply)'),
+  parseAbiItem('event RemoveLiquidity(address indexed provider, uint256[] token_amounts, uint256[] fees, uint256 token_supply)'),
+  parseAbiItem('event RemoveLiquidityImbalance(address indexed provider, uint256[] token_amounts, uint256[] fees, uint256 invariant, uint256 token_supply)'),
+  ...([2, 3, 4, 5, 6, 7, 8] as const).flatMap(n => [
+    parseAbiItem(`event AddLiquidity(address indexed provider, uint256[${n}] token_amounts, uint256[${n}] fees, uint256 invariant, uint256 token_supply)`),
+    parseAbiItem(`event RemoveLiquidity(address indexed provider, uint256[${n}] token_amounts, uint256[${n}] fees, uint256 token_supply)`),
+    parseAbiItem(`event RemoveLiquidityImbalance(address indexed provider, uint256[${n}] token_amounts, uint256[${n}] fees, uint256 invariant, uint256 token_supply)`),
+  ]),
+  parseAbiItem('event RemoveLiquidityOne(address indexed provider, uint256 token_amount, uint256 coin_amount)'),
+  parseAbiItem('event RemoveLiquidityOne(address indexed provider, uint256 token_amount, uint256 coin_amount, uint256 token_supply)'),
+  parseAbiItem('event RemoveLiquidityOne(address indexed provider, int128 token_id, uint256 token_amount, uint256 coin_amount, uint256 token_supply)'),
+  parseAbiItem('event RampA(uint256 old_A, uint256 new_A, uint256 initial_time, uint256 future_time)'),
+  parseAbiItem('event StopRampA(uint256 A, uint256 t)'),
+  parseAbiItem('event NewFee(uint256 fee, uint256 admin_fee)'),
+  parseAbiItem('event ApplyNewFee(uint256 fee, uint256 offpeg_fee_multiplier)'),
+] as AbiEvent[];
+
+const ERC20_ABI = [
+  parseAbiItem('function decimals() view returns (uint8)'),
+] as const;
+
+const MAX_COINS = 8;
+const SWAP_GAS = 130_000n;
+
+/**
+ * Curve StableSwap pools (plain and meta), swapped by calling exchange() on the pool itself
+ * Pools are enumerated from registries by PoolDiscovery rather than from creation events,
+ * and resynced by re-reading their state rather than replaying logs
+ */
+export class CurveAdapter implements DexAdapter {
+  readonly type = DexType.Curve;
+  readonly events = POOL_EVENTS;
+
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const coins = poolInfo.coins ?? await readCurveCoins(client, poolInfo.address);
+    const [decimals, legacyIndexing] = await Promise.all([
+      Promise.all(coins.map(coin => client.readContract({ address: coin, abi: ERC20_ABI, functionName: 'decimals' }))),
+      client.readContract({ address: poolInfo.address, abi: POOL_ABI, functionName: 'balances', args: [0n] })
+        .then(() => false, () => true),
+    ]);
+
+    const [token0, token1] = coins;
+    if (!token0 || !token1) return null;
+
+    const sub: PoolSubscription = {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: DexType.Curve,
+      router: poolInfo.address,
+      token0,
+      token1,
+      fee: 0,
+      curve: {
+        coins,
+        balances: coins.map(() => 0n),
+        rates: decimals.map(getRateForDecimals),
+        amp: 0n,
+        aPrecision: 1n,
+        fee: 0n,
+        basePool: poolInfo.basePool,
+      },
+      curveLegacyIndexing: legacyIndexing,
+    };
+
+    (await this.readState(client, sub))();
+    return sub;
+  }
+
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getPoolAddresses(subs);
+  }
+
+  /**
+   * Event layouts vary too much to track balances from log data, so each pool with logs
+   * is re-read at the block of its last log, by hash so a reorg cannot answer from another fork
+   */
+  async decodeLogs(client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byAddress = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    const lastLogs = new Map<PoolSubscription, Log<bigint, number, false>>();
+    for (const log of parseEventLogs({ abi: POOL_EVENTS, logs })) {
+      const sub = byAddress.get(log.address.toLowerCase());
+      if (sub) lastLogs.set(sub, log);
+    }
+
+    const updates = await Promise.all(Array.from(lastLogs, async ([sub, log]) => {
+      try {
+        return [toLogUpdate(log, sub, await this.readPool(client, sub, { blockHash: log.blockHash }))];
+      } catch (error) {
+        logger.warn({ pool: sub.pool, error }, 'Failed to refresh Curve pool');
+        return [];
+      }
+    }));
+    return updates.flat();
+  }
+
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    return this.readPool(client, sub, { blockNumber });
+  }
+
+  /**
+   * Read balances, amplification, fee and the coin rates: stored_rates() where the pool has
+   * it (NG pools with oracle or ERC4626 coins), otherwise the base virtual price of a meta pool
+   */
+  private async readPool(client: PublicClient, sub: PoolSubscription, block: BlockRef): Promise<() => void> {
+    const state = sub.curve;
+    if (!state) return () => {};
+
+    const pool = sub.pool;
+    const readBalance = (i: number) => sub.curveLegacyIndexing
+      ? readAt(client, { address: pool, abi: LEGACY_POOL_ABI, functionName: 'balances', args: [BigInt(i)] }, block)
+      : readAt(client, { address: pool, abi: POOL_ABI, functionName: 'balances', args: [BigInt(i)] }, block);
+
+    const [balances, ampPrecise, amp, fee, storedRates, virtualPrice] = await Promise.all([
+      Promise.all(state.coins.map((_, i) => readBalance(i))),
+      readAt(client, { address: pool, abi: POOL_ABI, functionName: 'A_precise' }, block).catch(() => undefined),
+      readAt(client, { address: pool, abi: POOL_ABI, functionName: 'A' }, block),
+      readAt(client, { address: pool, abi: POOL_ABI, functionName: 'fee' }, block),
+      readAt(client, { address: pool, abi: POOL_ABI, functionName: 'stored_rates' }, block).catch(() => undefined),
+      state.basePool
+        ? readAt(client, { address: state.basePool, abi: POOL_ABI, functionName: 'get_virtual_price' }, block)
+        : Promise.resolve(undefined),
+    ]);
+
+    return () => {
+      const curve = sub.curve;
+      if (!curve) return;
+
+      curve.balances = balances;
+      curve.fee = fee;
+      // Pools exposing A_precise use A_PRECISION = 100, legacy pools use the raw A
+      curve.amp = ampPrecise ?? amp;
+      curve.aPrecision = ampPrecise !== undefined ? 100n : 1n;
+      // Older pools have no stored_rates() or return a fixed-size array, which does not decode
+      if (storedRates && storedRates.length === curve.coins.length) {
+        curve.rates = [...storedRates];
+      } else if (virtualPrice !== undefined) {
+        curve.rates[curve.rates.length - 1] = virtualPrice;
+      }
+
+      sub.fee = Number(fee) / 1e6; // 1e10 denominator to basis points
+    };
+  }
+
+  /**
+   * Edges for every ordered coin pair
+   */
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    const state = sub.curve;
+    if (!state) return [];
+
+    return state.coins.flatMap((from, i) => state.coins.flatMap((to, j) => (i === j ? [] : [{
+      from,
+      to,
+      pool: sub.pool,
+      dex: sub.dex,
+      dexType: sub.dexType,
+      router: sub.router,
+      weight: edgeWeight(getSpotRate(state, i, j, tokens.getProbeAmount(from))),
+      reserve0: state.balances[i] ?? 0n,
+      reserve1: state.balances[j] ?? 0n,
+      fee: sub.fee,
+      fromDecimals: tokens.getDecimals(from),
+      toDecimals: tokens.getDecimals(to),
+      curve: state,
+    }])));
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    if (!edge.curve) return null;
+    const i = getCoinIndex(edge.curve, edge.from);
+    const j = getCoinIndex(edge.curve, edge.to);
+    if (i < 0 || j < 0) return null;
+    const amountOut = getDy(edge.curve, i, j, amountIn);
+    return amountOut > 0n ? amountOut : null;
+  }
+
+  encodeSwapData(edge: Edge): Hex {
+    if (!edge.curve) return '0x';
+    return encodeAbiParameters(
+      parseAbiParameters('int128, int128'),
+      [BigInt(getCoinIndex(edge.curve, edge.from)), BigInt(getCoinIndex(edge.curve, edge.to))]
+    );
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+}
+
+// Block a pool is read at: a number (or the latest block), or a hash that must still be canonical
+type BlockRef = { blockNumber?: bigint; blockHash?: Hash | null };
+
+/**
+ * readContract at a block given by number or by hash (EIP-1898), which viem only takes as a number
+ */
+async function readAt<const abi extends Abi, functionName extends ContractFunctionName<abi, 'view'>>(
+  client: PublicClient,
+  params: ReadContractParameters<abi, functionName>,
+  block: BlockRef
+): Promise<ReadContractReturnType<abi, functionName>> {
+  if (!block.blockHash) {
+    return client.readContract({ ...params, blockNumber: block.blockNumber } as unknown as ReadContractParameters<abi, functionName>);
+  }
+
+  const { address, abi, functionName, args } = params as { address: Address; abi: Abi; functionName: string; args?: readonly unknown[] };
+  const data = await client.request({
+    method: 'eth_call',
+    params: [
+      { to: address, data: encodeFunctionData({ abi, functionName, args }) },
+      { blockHash: block.blockHash, requireCanonical: true },
+    ],
+  });
+  return decodeFunctionResult({ abi, functionName, data }) as ReadContractReturnType<abi, functionName>;
+}
+
+/**
+ * Read a Curve pool's coin list, handling both uint256 and legacy int128 indexing
+ */
+export async function readCurveCoins(client: PublicClient, pool: Address): Promise<Address[]> {
+  const coins: Address[] = [];
+  let legacy = false;
+
+  for (let i = 0; i < MAX_COINS; i++) {
+    try {
+      const coin = legacy
+        ? await client.readContract({ address: pool, abi: LEGACY_COINS_ABI, functionName: 'coins', args: [BigInt(i)] })
+        : await client.readContract({ address: pool, abi: COINS_ABI, functionName: 'coins', args: [BigInt(i)] });
+      coins.push(coin);
+    } catch {
+      if (i === 0 && !legacy) {
+        legacy = true;
+        i--;
+        continue;
+      }
+      break;
+    }
+  }
+
+  return coins;
+}
@@ -0,0 +1,207 @@
+import type { AbiEvent, Address, Hash, Hex, Log, PublicClient } from 'viem';
+import type {
+  BalancerPoolState,
+  CurvePoolState,
+  DexConfig,
+  DexType,
+  Edge,
+  PoolInfo,
+  RegisteredPool,
+  V3PoolState,
+  V4PoolKey,
+} from '../types/index.js';
+
+// ============ Pool State ============
+
+// The mutable part of a pool's state, snapshotted before each block for reorg rollback
+export interface PoolState {
+  fee: number; // Basis points (token0 -> token1 for venues with per-direction fees)
+  feeOneForZero?: number; // Basis points for token1 -> token0, if it differs (Camelot, Algebra)
+  reserve0?: bigint; // V2/Solidly reserves
+  reserve1?: bigint;
+  v3?: V3PoolState; // Tick snapshot (V3 and V4)
+  curve?: CurvePoolState;
+  balancer?: BalancerPoolState;
+}
+
+// Pool state as it was before a block's logs were applied
+export interface PoolSnapshot {
+  blockNumber: bigint;
+  blockHash: Hash;
+  state: PoolState;
+}
+
+export interface PoolSubscription extends PoolState {
+  pool: Address; // Pool contract, or the PoolId for Uniswap V4
+  dex: string;
+  dexType: DexType;
+  router: Address; // Swap target: router, pool (Curve), PoolManager (V4) or Vault (Balancer)
+  token0: Address;
+  token1: Address;
+  poolKey?: V4PoolKey; // Uniswap V4: identifies the pool to the PoolManager
+  stateView?: Address;
+  dynamicFee?: boolean;
+  stable?: boolean; // Velodrome/Aerodrome curve type
+  decimals0?: number;
+  decimals1?: number;
+  curveLegacyIndexing?: boolean; // Pool uses balances(int128) instead of balances(uint256)
+  stale?: boolean; // Events may have been missed; excluded from the graph until resynced
+  history?: PoolSnapshot[]; // State before each recent block that changed the pool, oldest first
+  refreshedBlock?: bigint; // Block of the last applied state read; logs up to it are already in the state, bar tick liquidity
+  lastLogBlock?: bigint; // Block of the last log applied
+  ticksBlock?: bigint; // Block a state read last reloaded the tick snapshot at
+}
+
+// A decoded log's state update, held until its block is complete
+export interface PoolLogUpdate {
+  blockNumber: bigint;
+  blockHash?: Hash;
+  logIndex: number;
+  sub: PoolSubscription;
+  apply: () => void;
+  applyUnread?: () => void; // Part a state read does not cover (tick liquidity), for a log older than the read
+}
+
+// Token metadata edges are built with
+export interface TokenContext {
+  getDecimals(token: Address): number;
+  getProbeAmount(token: Address): bigint; // Input (raw units) used to price an edge, a fixed USD notional
+}
+
+// ============ Adapter ============
+
+/**
+ * Everything the bot needs to know about one DEX type
+ * State updates (`apply` callbacks) only mutate the subscription; the caller republishes
+ * the pool's edges afterwards. Callbacks read the state through `sub` when they run, so
+ * a reorg rollback that replaces it in between is respected
+ */
+export interface DexAdapter {
+  readonly type: DexType;
+
+  /**
+   * Decode pools created within a block range from the factory's events
+   * Venues without creation events (Curve registries) are enumerated by PoolDiscovery
+   */
+  fetchPools?(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]>;
+
+  /**
+   * Load a pool's state; null if the pool cannot be modeled
+   */
+  loadPool(client: PublicClient, dex: DexConfig, pool: PoolInfo): Promise<PoolSubscription | null>;
+
+  /**
+   * Events that change pool state, subscribed to by topic on the chain's shared log subscription
+   */
+  readonly events: readonly AbiEvent[];
+
+  /**
+   * Contracts emitting the given pools' events: the pools themselves, or a singleton (V4, Balancer)
+   */
+  getLogAddresses(subs: PoolSubscription[]): Address[];
+
+  /**
+   * Decode logs from this venue's addresses into state updates for the given pools
+   * Logs of other pools (a singleton emits events for every pool) are dropped
+   */
+  decodeLogs(client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]>;
+
+  /**
+   * Fetch and decode state-changing logs in a block range after a disconnect
+   * Venues whose logs cannot be decoded generically omit this and are re-read instead
+   */
+  fetchLogs?(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]>;
+
+  /**
+   * Re-read a pool's state at a block, returning a callback that applies it
+   */
+  readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void>;
+
+  /**
+   * Graph edges for the pool's current state, token0 -> token1 first
+   * Weights are priced with a probe-sized swap in the input token's units
+   */
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[];
+
+  /**
+   * Exact output of a swap along one of this venue's edges, or null if it cannot be quoted
+   */
+  quote(edge: Edge, amountIn: bigint): bigint | null;
+
+  /**
+   * SwapStep.data for a hop, as decoded by the executor contract
+   */
+  encodeSwapData(edge: Edge): Hex;
+
+  /**
+   * Typical gas used by one hop through this venue, before the gas model calibrates it
+   */
+  estimateGas(): bigint;
+
+  /**
+   * Initialized ticks a swap along the edge crosses (concentrated liquidity venues only)
+   */
+  getTicksCrossed?(edge: Edge, amountIn: bigint): number;
+}
+
+// ============ Helpers ============
+
+/**
+ * Deep copy of a pool's mutable state
+ */
+export function clonePoolState(sub: PoolState): PoolState {
+  const { fee, feeOneForZero, reserve0, reserve1, v3, curve, balancer } = sub;
+  return structuredClone({ fee, feeOneForZero, reserve0, reserve1, v3, curve, balancer });
+}
+
+/**
+ * Pair a fetched log with the state update it decodes to
+ */
+export function toLogUpdate(
+  log: { blockNumber: bigint; blockHash: Hash; logIndex: number },
+  sub: PoolSubscription,
+  apply: () => void,
+  applyUnread?: () => void
+): PoolLogUpdate {
+  return { blockNumber: log.blockNumber, blockHash: log.blockHash, logIndex: log.logIndex, sub, apply, applyUnread };
+}
+
+/**
+ * Edge weight for Bellman-Ford: -ln(rate), so negative cycles are profitable
+ */
+export function edgeWeight(rate: number): number {
+  if (rate <= 0) return Infinity;
+  return -Math.log(rate);
+}
+
+/**
+ * Every token a pool trades
+ */
+export function getPoolTokens(sub: PoolSubscription): Address[] {
+  return sub.curve?.coins ?? sub.balancer?.tokens ?? [sub.token0, sub.token1];
+}
+
+/**
+ * Addresses of pools that emit their own events
+ */
+export function getPoolAddresses(subs: PoolSubscription[]): Address[] {
+  return subs.map(sub => sub.pool);
+}
+
+/**
+ * Distinct swap targets of a singleton venue (V4 PoolManager, Balancer Vault)
+ */
+export function getRouterAddresses(subs: PoolSubscription[]): Address[] {
+  return Array.from(groupByRouter(subs).keys());
+}
+
+/**
+ * Pools of a singleton venue (V4 PoolManager, Balancer Vault) grouped by that contract
+ */
+export function groupByRouter(subs: PoolSubscription[]): Map<Address, PoolSubscription[]> {
+  const groups = new Map<Address, PoolSubscription[]>();
+  for (const sub of subs) {
+    groups.set(sub.router, [...(groups.get(sub.router) || []), sub]);
+  }
+  return groups;
+}
@@ -0,0 +1,44 @@
+import type { DexType } from '../types/index.js';
+import type { DexAdapter } from './dex-adapter.js';
+import { UniswapV2Adapter } from './uniswap-v2.js';
+import { UniswapV3Adapter } from './uniswap-v3.js';
+import { UniswapV4Adapter } from './uniswap-v4.js';
+import { VelodromeAdapter } from './velodrome.js';
+import { CurveAdapter } from './curve.js';
+import { BalancerAdapter } from './balancer.js';
+import { CamelotV2Adapter } from './camelot-v2.js';
+import { AlgebraAdapter } from './algebra.js';
+
+export type { DexAdapter, PoolLogUpdate, PoolSnapshot, PoolState, PoolSubscription, TokenContext } from './dex-adapter.js';
+export { clonePoolState, getPoolTokens } from './dex-adapter.js';
+export { readCurveCoins } from './curve.js';
+
+// Adapters keyed by the DexConfig.type they handle
+const adapters = new Map<DexType, DexAdapter>();
+
+/**
+ * Register (or replace) the adapter for a DEX type
+ */
+export function registerDexAdapter(adapter: DexAdapter): void {
+  adapters.set(adapter.type, adapter);
+}
+
+/**
+ * Adapter for a DEX type
+ */
+export function getDexAdapter(type: DexType): DexAdapter {
+  const adapter = adapters.get(type);
+  if (!adapter) {
+    throw new Error(`No adapter registered for DEX type ${type}`);
+  }
+  return adapter;
+}
+
+registerDexAdapter(new UniswapV2Adapter());
+registerDexAdapter(new UniswapV3Adapter());
+registerDexAdapter(new UniswapV4Adapter());
+registerDexAdapter(new VelodromeAdapter());
+registerDexAdapter(new CurveAdapter());
+registerDexAdapter(new BalancerAdapter());
+registerDexAdapter(new CamelotV2Adapter());
+registerDexAdapter(new AlgebraAdapter());
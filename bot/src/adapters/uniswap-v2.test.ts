@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPublicClient,
+  custom,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  hexToBigInt,
+  parseAbi,
+  parseAbiParameters,
+  type Address,
+  type Hex,
+  type Log,
+} from 'viem';
+import { DexType } from '../types/index.js';
+import type { PoolSubscription, TokenContext } from './dex-adapter.js';
+import { UniswapV2Adapter } from './uniswap-v2.js';
+import { getAmountOut, getSpotRate } from '../utils/uniswap-v2-math.js';
+
+const address = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+const [A, B] = [address(1), address(2)];
+const [PAIR, OTHER] = [address(101), address(102)];
+const E18 = 10n ** 18n;
+
+const PAIR_ABI = parseAbi(['function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)']);
+
+const adapter = new UniswapV2Adapter();
+
+const tokens: TokenContext = {
+  getDecimals: () => 18,
+  getProbeAmount: () => 10n ** 16n,
+};
+
+const subscribe = (): PoolSubscription => ({
+  pool: PAIR,
+  dex: 'Test',
+  dexType: DexType.UniswapV2,
+  router: address(200),
+  token0: A,
+  token1: B,
+  fee: 30,
+  reserve0: 1000n * E18,
+  reserve1: 2000n * E18,
+});
+
+const syncLog = (pair: Address, reserve0: bigint, reserve1: bigint, blockNumber: bigint, logIndex: number): Log => {
+  const [topic] = encodeEventTopics({ abi: adapter.events, eventName: 'Sync' });
+  return {
+    address: pair,
+    topics: topic ? [topic] : [],
+    data: encodeAbiParameters(parseAbiParameters('uint112, uint112'), [reserve0, reserve1]),
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    logIndex,
+    transactionHash: `0x${'0'.repeat(63)}1`,
+    transactionIndex: 0,
+    removed: false,
+  };
+};
+
+// Answers getReserves with the reserves of the block asked for
+const createClient = (reservesAt: (block: bigint) => [bigint, bigint]) => createPublicClient({
+  transport: custom({
+    async request({ method, params }) {
+      if (method !== 'eth_call') throw new Error(`Unexpected ${method}`);
+      const [, block] = params as [unknown, Hex];
+      const [reserve0, reserve1] = reservesAt(hexToBigInt(block));
+      return encodeFunctionResult({ abi: PAIR_ABI, functionName: 'getReserves', result: [reserve0, reserve1, 0] });
+    },
+  }),
+});
+
+describe('UniswapV2Adapter', () => {
+  it('decodes Sync logs of subscribed pairs into reserve updates', async () => {
+    const sub = subscribe();
+    const updates = await adapter.decodeLogs(createClient(() => [0n, 0n]), [sub], [
+      syncLog(PAIR, 1100n * E18, 1820n * E18, 7n, 3),
+      syncLog(OTHER, 1n, 1n, 7n, 4),
+    ]);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ blockNumber: 7n, logIndex: 3, sub });
+    expect(sub.reserve0).toBe(1000n * E18);
+
+    updates[0]?.apply();
+    expect(sub.reserve0).toBe(1100n * E18);
+    expect(sub.reserve1).toBe(1820n * E18);
+  });
+
+  it('reads the reserves at the given block and applies them on demand', async () => {
+    const sub = subscribe();
+    const client = createClient(block => [block * E18, 2n * block * E18]);
+
+    const apply = await adapter.readState(client, sub, 1234n);
+    expect(sub.reserve0).toBe(1000n * E18);
+
+    apply();
+    expect(sub.reserve0).toBe(1234n * E18);
+    expect(sub.reserve1).toBe(2468n * E18);
+  });
+
+  it('prices both directions with a probe-sized swap', () => {
+    const [forward, reverse] = adapter.getEdges(subscribe(), tokens);
+
+    expect(forward).toMatchObject({ from: A, to: B, reserve0: 1000n * E18, reserve1: 2000n * E18, fee: 30 });
+    expect(reverse).toMatchObject({ from: B, to: A, reserve0: 2000n * E18, reserve1: 1000n * E18, fee: 30 });
+    expect(forward?.weight).toBeCloseTo(-Math.log(getSpotRate(1000n * E18, 2000n * E18, 30, 10n ** 16n)), 12);
+    expect(forward?.weight).toBeGreaterThan(-Math.log(2));
+  });
+
+  it('quotes an edge with the constant-product formula', () => {
+    const [forward] = adapter.getEdges(subscribe(), tokens);
+    if (!forward) throw new Error('No edge');
+
+    expect(adapter.quote(forward, 10n * E18)).toBe(getAmountOut(1000n * E18, 2000n * E18, 10n * E18, 30));
+    expect(adapter.quote(forward, 10n * E18)).toBeLessThan(20n * E18);
+  });
+});
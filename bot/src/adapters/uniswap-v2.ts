@@ -0,0 +1,153 @@
+import { getContract, parseAbiItem, parseEventLogs, type Address, type Hex, type Log, type PublicClient } from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { edgeWeight, getPoolAddresses, toLogUpdate } from './dex-adapter.js';
+import { getAmountOut, getSpotRate } from '../utils/uniswap-v2-math.js';
+
+const PAIR_CREATED = parseAbiItem('event PairCreated(address indexed token0, address indexed token1, address pair, uint256 pairCount)');
+
+const PAIR_ABI = [
+  parseAbiItem('event Sync(uint112 reserve0, uint112 reserve1)'),
+  parseAbiItem('function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'),
+] as const;
+
+const DEFAULT_FEE_BPS = 30; // 0.3%
+const SWAP_GAS = 80_000n;
+
+/**
+ * Uniswap V2 and its forks: constant-product pairs swapped through the router
+ */
+export class UniswapV2Adapter implements DexAdapter {
+  readonly type = DexType.UniswapV2;
+  readonly events = [PAIR_ABI[0]];
+
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    return fetchPairs(client, dex, fromBlock, toBlock);
+  }
+
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const pair = getContract({ address: poolInfo.address, abi: PAIR_ABI, client });
+    const [reserve0, reserve1] = await pair.read.getReserves();
+
+    return {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: dex.type,
+      router: dex.router,
+      token0: poolInfo.token0,
+      token1: poolInfo.token1,
+      fee: DEFAULT_FEE_BPS,
+      reserve0,
+      reserve1,
+    };
+  }
+
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getPoolAddresses(subs);
+  }
+
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byAddress = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    return parseEventLogs({ abi: PAIR_ABI, eventName: 'Sync', logs }).flatMap(log => {
+      const sub = byAddress.get(log.address.toLowerCase());
+      const { reserve0, reserve1 } = log.args;
+      if (!sub) return [];
+      return [toLogUpdate(log, sub, () => Object.assign(sub, { reserve0, reserve1 }))];
+    });
+  }
+
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    if (subs.length === 0) return [];
+    const logs = await client.getLogs({ address: getPoolAddresses(subs), event: PAIR_ABI[0], fromBlock, toBlock });
+    return this.decodeLogs(client, subs, logs);
+  }
+
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    const [reserve0, reserve1] = await client.readContract({
+      address: sub.pool,
+      abi: PAIR_ABI,
+      functionName: 'getReserves',
+      blockNumber,
+    });
+    return () => Object.assign(sub, { reserve0, reserve1 });
+  }
+
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    return getPairEdges(sub, tokens);
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    return getAmountOut(edge.reserve0, edge.reserve1, amountIn, edge.fee);
+  }
+
+  encodeSwapData(): Hex {
+    return '0x';
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+}
+
+// ============ Shared with Camelot ============
+
+/**
+ * Pairs created within a block range, from the factory's PairCreated events
+ */
+export async function fetchPairs(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+  const logs = await client.getLogs({ address: dex.factory, event: PAIR_CREATED, fromBlock, toBlock });
+  return logs.flatMap(log => {
+    const { token0, token1, pair } = log.args;
+    if (!token0 || !token1 || !pair) return [];
+    return [{
+      dex: dex.name,
+      dexType: dex.type,
+      factory: dex.factory,
+      address: pair,
+      token0,
+      token1,
+      createdBlock: log.blockNumber ?? toBlock,
+    }];
+  });
+}
+
+/**
+ * Constant-product edges, each direction priced with its own fee
+ */
+export function getPairEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+  const reserve0 = sub.reserve0 ?? 0n;
+  const reserve1 = sub.reserve1 ?? 0n;
+  const fee0 = sub.fee;
+  const fee1 = sub.feeOneForZero ?? sub.fee;
+  const decimals0 = tokens.getDecimals(sub.token0);
+  const decimals1 = tokens.getDecimals(sub.token1);
+  const base = { pool: sub.pool, dex: sub.dex, dexType: sub.dexType, router: sub.router };
+
+  // Edge reserves are oriented as (reserveIn, reserveOut)
+  return [
+    {
+      ...base,
+      from: sub.token0,
+      to: sub.token1,
+      weight: edgeWeight(getSpotRate(reserve0, reserve1, fee0, tokens.getProbeAmount(sub.token0))),
+      reserve0,
+      reserve1,
+      fee: fee0,
+      fromDecimals: decimals0,
+      toDecimals: decimals1,
+    },
+    {
+      ...base,
+      from: sub.token1,
+      to: sub.token0,
+      weight: edgeWeight(getSpotRate(reserve1, reserve0, fee1, tokens.getProbeAmount(sub.token1))),
+      reserve0: reserve1,
+      reserve1: reserve0,
+      fee: fee1,
+      fromDecimals: decimals1,
+      toDecimals: decimals0,
+    },
+  ];
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPublicClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  parseAbi,
+  parseAbiParameters,
+  type Address,
+  type EncodeEventTopicsReturnType,
+  type Hex,
+  type Log,
+} from 'viem';
+import { DexType, type V3PoolState } from '../types/index.js';
+import type { PoolSubscription, TokenContext } from './dex-adapter.js';
+import { UniswapV3Adapter } from './uniswap-v3.js';
+import { applyLiquidityDelta, getSqrtRatioAtTick, getSpotRate, quoteExactInput } from '../utils/uniswap-v3-math.js';
+
+const address = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+const [A, B] = [address(1), address(2)];
+const [POOL, OTHER] = [address(101), address(102)];
+const E18 = 10n ** 18n;
+
+const POOL_ABI = parseAbi([
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function liquidity() view returns (uint128)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+]);
+
+const adapter = new UniswapV3Adapter();
+
+const tokens: TokenContext = {
+  getDecimals: () => 18,
+  getProbeAmount: () => 10n ** 15n,
+};
+
+// Tick spacing 60, 0.3% fee, price just above tick 30, with positions
+// [-600, 600) 2e18, [-1200, -60) 5e17 and [120, 3000) 1e18
+const subscribe = (): PoolSubscription => {
+  const v3: V3PoolState = {
+    sqrtPriceX96: 79347087983666005045280530760n,
+    tick: 30,
+    liquidity: 0n,
+    fee: 3000,
+    tickSpacing: 60,
+    ticks: new Map(),
+    tickBitmap: new Map(),
+    minWord: -2,
+    maxWord: 1,
+  };
+  applyLiquidityDelta(v3, -600, 600, 2n * E18);
+  applyLiquidityDelta(v3, -1200, -60, 5n * 10n ** 17n);
+  applyLiquidityDelta(v3, 120, 3000, E18);
+  return { pool: POOL, dex: 'Test', dexType: DexType.UniswapV3, router: address(200), token0: A, token1: B, fee: 30, v3 };
+};
+
+const toLog = (pool: Address, encoded: EncodeEventTopicsReturnType, data: Hex, blockNumber: bigint, logIndex: number): Log => {
+  const [topic, ...topics] = encoded.filter((t): t is Hex => typeof t === 'string');
+  return {
+    address: pool,
+    topics: topic ? [topic, ...topics] : [],
+    data,
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    logIndex,
+    transactionHash: `0x${'0'.repeat(63)}1`,
+    transactionIndex: 0,
+    removed: false,
+  };
+};
+
+const swapLog = (pool: Address, sqrtPriceX96: bigint, liquidity: bigint, tick: number): Log => toLog(
+  pool,
+  encodeEventTopics({ abi: adapter.events, eventName: 'Swap', args: { sender: A, recipient: A } }),
+  encodeAbiParameters(parseAbiParameters('int256, int256, uint160, uint128, int24'), [E18, -E18, sqrtPriceX96, liquidity, tick]),
+  7n,
+  1
+);
+
+const mintLog = (pool: Address, tickLower: number, tickUpper: number, amount: bigint): Log => toLog(
+  pool,
+  encodeEventTopics({ abi: adapter.events, eventName: 'Mint', args: { owner: A, tickLower, tickUpper } }),
+  encodeAbiParameters(parseAbiParameters('address, uint128, uint256, uint256'), [A, amount, 0n, 0n]),
+  7n,
+  2
+);
+
+// Answers slot0 and liquidity with the given price, and every bitmap word as empty,
+// recording the block of each call
+const createClient = (tick: number, liquidity: bigint, blocks: string[] = []) => createPublicClient({
+  transport: custom({
+    async request({ method, params }) {
+      if (method !== 'eth_call') throw new Error(`Unexpected ${method}`);
+      const [call, block] = params as [{ data: Hex }, string];
+      blocks.push(block);
+      const { functionName } = decodeFunctionData({ abi: POOL_ABI, data: call.data });
+      if (functionName === 'slot0') {
+        return encodeFunctionResult({
+          abi: POOL_ABI,
+          functionName,
+          result: [getSqrtRatioAtTick(tick), tick, 0, 1, 1, 0, true],
+        });
+      }
+      if (functionName === 'liquidity') return encodeFunctionResult({ abi: POOL_ABI, functionName, result: liquidity });
+      return encodeFunctionResult({ abi: POOL_ABI, functionName, result: 0n });
+    },
+  }),
+});
+
+describe('UniswapV3Adapter', () => {
+  it('decodes Swap logs into price updates for subscribed pools', async () => {
+    const sub = subscribe();
+    const updates = await adapter.decodeLogs(createClient(0, 0n), [sub], [
+      swapLog(POOL, getSqrtRatioAtTick(-100), 2n * E18, -100),
+      swapLog(OTHER, getSqrtRatioAtTick(100), E18, 100),
+    ]);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]?.applyUnread).toBeUndefined();
+    updates[0]?.apply();
+    expect(sub.v3).toMatchObject({ sqrtPriceX96: getSqrtRatioAtTick(-100), tick: -100, liquidity: 2n * E18 });
+  });
+
+  it('decodes Mint logs into tick updates, with a ticks-only part for reads that include them', async () => {
+    const sub = subscribe();
+    const [update] = await adapter.decodeLogs(createClient(0, 0n), [sub], [mintLog(POOL, -180, 180, E18)]);
+    if (!update) throw new Error('No update');
+
+    update.apply();
+    expect(sub.v3?.liquidity).toBe(3n * E18);
+    expect(sub.v3?.ticks.get(-180)).toEqual({ liquidityGross: E18, liquidityNet: E18 });
+
+    update.applyUnread?.();
+    expect(sub.v3?.liquidity).toBe(3n * E18);
+    expect(sub.v3?.ticks.get(180)).toEqual({ liquidityGross: 2n * E18, liquidityNet: -2n * E18 });
+  });
+
+  it('reads price and liquidity at the given block, keeping the tick snapshot', async () => {
+    const sub = subscribe();
+    const ticks = sub.v3?.ticks;
+    const blocks: string[] = [];
+
+    const apply = await adapter.readState(createClient(90, 2n * E18, blocks), sub, 100n);
+    expect(sub.v3?.tick).toBe(30);
+
+    apply();
+    expect(sub.v3).toMatchObject({ sqrtPriceX96: getSqrtRatioAtTick(90), tick: 90, liquidity: 2n * E18 });
+    expect(sub.v3?.ticks).toBe(ticks);
+    expect(sub.ticksBlock).toBeUndefined();
+    expect(blocks).toEqual(['0x64', '0x64']);
+  });
+
+  it('reloads the tick snapshot at the read block once the price reaches its outermost words', async () => {
+    const sub = subscribe();
+    const blocks: string[] = [];
+
+    // Tick 15360 is in word 1 at spacing 60, the last one loaded
+    const apply = await adapter.readState(createClient(15360, E18, blocks), sub, 100n);
+    apply();
+
+    expect(sub.v3).toMatchObject({ tick: 15360, liquidity: E18, minWord: -1, maxWord: 3 });
+    expect(sub.v3?.ticks.size).toBe(0);
+    expect(sub.ticksBlock).toBe(100n);
+    expect(blocks.every(block => block === '0x64')).toBe(true);
+  });
+
+  it('builds one edge per direction, priced with a probe-sized swap', () => {
+    const sub = subscribe();
+    const [forward, reverse] = adapter.getEdges(sub, tokens);
+
+    expect(forward).toMatchObject({ from: A, to: B, fee: 30, v3: sub.v3 });
+    expect(reverse).toMatchObject({ from: B, to: A, fee: 30, v3: sub.v3 });
+    if (!sub.v3) throw new Error('No snapshot');
+    const probeOut = quoteExactInput(sub.v3, true, 10n ** 15n)?.amountOut ?? 0n;
+    expect(forward?.weight).toBeCloseTo(-Math.log(Number(probeOut) / 1e15), 12);
+    expect(reverse?.weight).toBeCloseTo(-Math.log(getSpotRate(sub.v3, false, 10n ** 15n)), 12);
+    // The probe's price impact makes it a little worse than the marginal rate
+    expect(forward?.weight).toBeGreaterThan(-Math.log(getSpotRate(sub.v3, true)));
+  });
+
+  it('gives an edge no usable weight when the probe would leave the snapshot', () => {
+    const sub = subscribe();
+    const [forward] = adapter.getEdges(sub, { ...tokens, getProbeAmount: () => 10n ** 21n });
+    expect(forward?.weight).toBe(Infinity);
+  });
+
+  it('quotes an edge across the ticks of the snapshot', () => {
+    const sub = subscribe();
+    const [forward, reverse] = adapter.getEdges(sub, tokens);
+    if (!forward || !reverse || !sub.v3) throw new Error('No edges');
+
+    expect(adapter.quote(forward, 6n * 10n ** 16n)).toBe(58499317890405432n);
+    expect(adapter.getTicksCrossed(forward, 6n * 10n ** 16n)).toBe(1);
+    expect(adapter.quote(reverse, 2n * 10n ** 16n)).toBe(quoteExactInput(sub.v3, false, 2n * 10n ** 16n)?.amountOut);
+  });
+});
@@ -0,0 +1,350 @@
+import {
+  encodeAbiParameters,
+  getContract,
+  parseAbiItem,
+  parseAbiParameters,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool, V3PoolState, V3TickInfo } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { edgeWeight, getPoolAddresses, toLogUpdate } from './dex-adapter.js';
+import {
+  MIN_TICK,
+  MAX_TICK,
+  applyLiquidityDelta,
+  applySwap,
+  applyTickLiquidityDelta,
+  getFee,
+  getSpotRate,
+  getVirtualReserves,
+  quoteExactInput,
+  tickWordPosition,
+} from '../utils/uniswap-v3-math.js';
+
+// Number of tick bitmap words loaded on each side of the current tick
+const V3_TICK_WORD_RANGE = Number(process.env.V3_TICK_WORD_RANGE) || 2;
+
+const POOL_CREATED = parseAbiItem('event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)');
+
+const POOL_ABI = [
+  parseAbiItem('function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'),
+  parseAbiItem('function liquidity() view returns (uint128)'),
+  parseAbiItem('function fee() view returns (uint24)'),
+  parseAbiItem('function tickSpacing() view returns (int24)'),
+  parseAbiItem('function tickBitmap(int16 wordPosition) view returns (uint256)'),
+  parseAbiItem('function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)'),
+] as const;
+
+const POOL_EVENTS = [
+  parseAbiItem('event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'),
+  parseAbiItem('event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)'),
+  parseAbiItem('event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)'),
+] as const;
+
+const SWAP_GAS = 100_000n;
+
+/**
+ * Uniswap V3 and its forks: concentrated liquidity pools quoted from a local tick snapshot
+ */
+export class UniswapV3Adapter implements DexAdapter {
+  readonly type = DexType.UniswapV3;
+  readonly events = POOL_EVENTS;
+
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    const logs = await client.getLogs({ address: dex.factory, event: POOL_CREATED, fromBlock, toBlock });
+    return logs.flatMap(log => {
+      const { token0, token1, fee, tickSpacing, pool } = log.args;
+      if (!token0 || !token1 || !pool || fee === undefined || tickSpacing === undefined) return [];
+      return [{
+        dex: dex.name,
+        dexType: dex.type,
+        factory: dex.factory,
+        address: pool,
+        token0,
+        token1,
+        fee: fee / 100, // Convert to basis points
+        tickSpacing,
+        createdBlock: log.blockNumber ?? toBlock,
+      }];
+    });
+  }
+
+  /**
+   * Load a local tick snapshot (bitmap words + liquidityNet) around the current tick
+   */
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const pool = getContract({ address: poolInfo.address, abi: POOL_ABI, client });
+
+    const [slot0, liquidity, fee, tickSpacing] = await Promise.all([
+      pool.read.slot0(),
+      pool.read.liquidity(),
+      pool.read.fee(),
+      pool.read.tickSpacing(),
+    ]);
+
+    const v3 = await loadPoolTicks(client, poolInfo.address, { sqrtPriceX96: slot0[0], tick: slot0[1], liquidity, fee, tickSpacing });
+
+    return {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: DexType.UniswapV3,
+      router: dex.router,
+      token0: poolInfo.token0,
+      token1: poolInfo.token1,
+      fee: v3.fee / 100, // Convert to basis points
+      v3,
+    };
+  }
+
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getPoolAddresses(subs);
+  }
+
+  /**
+   * Swap/Mint/Burn logs keep each tick snapshot current
+   */
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byAddress = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    return parseEventLogs({ abi: POOL_EVENTS, logs }).flatMap(log => {
+      const sub = byAddress.get(log.address.toLowerCase());
+      const update = sub && getLogUpdate(sub, log);
+      return sub && update ? [toLogUpdate(log, sub, update.apply, update.applyUnread)] : [];
+    });
+  }
+
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    if (subs.length === 0) return [];
+    const logs = await client.getLogs({ address: getPoolAddresses(subs), events: POOL_EVENTS, fromBlock, toBlock });
+    return this.decodeLogs(client, subs, logs);
+  }
+
+  /**
+   * Re-read slot0 and liquidity; the tick snapshot itself is kept current by Mint/Burn logs,
+   * and reloaded around the current tick once the price reaches its outermost words
+   */
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    const [slot0, liquidity] = await Promise.all([
+      client.readContract({ address: sub.pool, abi: POOL_ABI, functionName: 'slot0', blockNumber }),
+      client.readContract({ address: sub.pool, abi: POOL_ABI, functionName: 'liquidity', blockNumber }),
+    ]);
+    const reloaded = sub.v3 && isNearSnapshotEdge(sub.v3, slot0[1])
+      ? await loadPoolTicks(client, sub.pool, { ...sub.v3, sqrtPriceX96: slot0[0], tick: slot0[1], liquidity }, blockNumber)
+      : undefined;
+
+    return () => {
+      if (reloaded) {
+        sub.v3 = reloaded;
+        sub.ticksBlock = blockNumber;
+      } else if (sub.v3) applySwap(sub.v3, slot0[0], slot0[1], liquidity);
+    };
+  }
+
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    return getTickEdges(sub, tokens);
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    return quoteTicks(edge, amountIn);
+  }
+
+  encodeSwapData(edge: Edge): Hex {
+    return encodeAbiParameters(parseAbiParameters('uint24'), [edge.v3?.fee ?? edge.fee * 100]);
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+
+  getTicksCrossed(edge: Edge, amountIn: bigint): number {
+    return countTicksCrossed(edge, amountIn);
+  }
+}
+
+/**
+ * Tick snapshot of a pool from its tickBitmap and ticks, optionally at a past block
+ */
+function loadPoolTicks(
+  client: PublicClient,
+  pool: Address,
+  current: Pick<V3PoolState, 'sqrtPriceX96' | 'tick' | 'liquidity' | 'fee' | 'tickSpacing'>,
+  blockNumber?: bigint
+): Promise<V3PoolState> {
+  return loadTickSnapshot(
+    current,
+    word => client.readContract({ address: pool, abi: POOL_ABI, functionName: 'tickBitmap', args: [word], blockNumber }),
+    async tick => {
+      const data = await client.readContract({ address: pool, abi: POOL_ABI, functionName: 'ticks', args: [tick], blockNumber });
+      return { liquidityGross: data[0], liquidityNet: data[1] };
+    }
+  );
+}
+
+// ============ Shared with Uniswap V4 ============
+
+/**
+ * Read the bitmap words within V3_TICK_WORD_RANGE of the current tick and the
+ * liquidity of every initialized tick in them
+ */
+export async function loadTickSnapshot(
+  current: Pick<V3PoolState, 'sqrtPriceX96' | 'tick' | 'liquidity' | 'fee' | 'tickSpacing'>,
+  readBitmap: (word: number) => Promise<bigint>,
+  readTick: (tick: number) => Promise<V3TickInfo>
+): Promise<V3PoolState> {
+  const { tick, tickSpacing } = current;
+  const currentWord = tickWordPosition(tick, tickSpacing);
+  const minWord = Math.max(currentWord - V3_TICK_WORD_RANGE, tickWordPosition(MIN_TICK, tickSpacing));
+  const maxWord = Math.min(currentWord + V3_TICK_WORD_RANGE, tickWordPosition(MAX_TICK, tickSpacing));
+
+  const state: V3PoolState = {
+    ...current,
+    ticks: new Map(),
+    tickBitmap: new Map(),
+    minWord,
+    maxWord,
+  };
+
+  const words: number[] = [];
+  for (let word = minWord; word <= maxWord; word++) words.push(word);
+  const bitmaps = await Promise.all(words.map(readBitmap));
+
+  const initializedTicks: number[] = [];
+  words.forEach((word, i) => {
+    const bitmap = bitmaps[i];
+    if (!bitmap) return;
+    state.tickBitmap.set(word, bitmap);
+    for (let bit = 0; bit < 256; bit++) {
+      if ((bitmap >> BigInt(bit)) & 1n) {
+        initializedTicks.push((word * 256 + bit) * tickSpacing);
+      }
+    }
+  });
+
+  const tickData = await Promise.all(initializedTicks.map(readTick));
+  initializedTicks.forEach((t, i) => {
+    const data = tickData[i];
+    if (data) state.ticks.set(t, data);
+  });
+
+  return state;
+}
+
+/**
+ * Whether the tick is in the outermost loaded bitmap word on either side (or past it), so a
+ * further move would leave the snapshot; the words at the tick range limits have no beyond
+ */
+export function isNearSnapshotEdge(state: V3PoolState, tick: number): boolean {
+  const word = tickWordPosition(tick, state.tickSpacing);
+  return (word <= state.minWord && state.minWord > tickWordPosition(MIN_TICK, state.tickSpacing))
+    || (word >= state.maxWord && state.maxWord < tickWordPosition(MAX_TICK, state.tickSpacing));
+}
+
+/**
+ * Edges from the local tick snapshot
+ * Weights use a probe-sized swap quoted across the ticks, like sizing
+ */
+export function getTickEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+  const state = sub.v3;
+  if (!state) return [];
+
+  const { reserve0, reserve1 } = getVirtualReserves(state);
+  const decimals0 = tokens.getDecimals(sub.token0);
+  const decimals1 = tokens.getDecimals(sub.token1);
+  const base = {
+    pool: sub.pool,
+    dex: sub.dex,
+    dexType: sub.dexType,
+    router: sub.router,
+    v3: state,
+    poolKey: sub.poolKey,
+  };
+
+  return [
+    {
+      ...base,
+      from: sub.token0,
+      to: sub.token1,
+      weight: edgeWeight(getSpotRate(state, true, tokens.getProbeAmount(sub.token0))),
+      reserve0,
+      reserve1,
+      fee: getFee(state, true) / 100, // Follows dynamic V4 and Algebra fees
+      fromDecimals: decimals0,
+      toDecimals: decimals1,
+    },
+    {
+      ...base,
+      from: sub.token1,
+      to: sub.token0,
+      weight: edgeWeight(getSpotRate(state, false, tokens.getProbeAmount(sub.token1))),
+      reserve0: reserve1,
+      reserve1: reserve0,
+      fee: getFee(state, false) / 100,
+      fromDecimals: decimals1,
+      toDecimals: decimals0,
+    },
+  ];
+}
+
+/**
+ * Exact-input quote across the ticks of the snapshot
+ */
+export function quoteTicks(edge: Edge, amountIn: bigint): bigint | null {
+  if (!edge.v3) return null;
+  const zeroForOne = edge.from.toLowerCase() < edge.to.toLowerCase();
+  return quoteExactInput(edge.v3, zeroForOne, amountIn)?.amountOut ?? null;
+}
+
+/**
+ * Initialized ticks crossed by a swap along a tick-based edge, each costing extra gas
+ */
+export function countTicksCrossed(edge: Edge, amountIn: bigint): number {
+  if (!edge.v3) return 0;
+  const zeroForOne = edge.from.toLowerCase() < edge.to.toLowerCase();
+  return quoteExactInput(edge.v3, zeroForOne, amountIn)?.ticksCrossed ?? 0;
+}
+
+/**
+ * Translate a V3 Swap/Mint/Burn log into a state update for its pool
+ */
+function getLogUpdate(
+  sub: PoolSubscription,
+  log: {
+    eventName: 'Swap' | 'Mint' | 'Burn';
+    args: {
+      sqrtPriceX96?: bigint;
+      liquidity?: bigint;
+      tick?: number;
+      tickLower?: number;
+      tickUpper?: number;
+      amount?: bigint;
+    };
+  }
+): Pick<PoolLogUpdate, 'apply' | 'applyUnread'> | undefined {
+  const { sqrtPriceX96, liquidity, tick, tickLower, tickUpper, amount } = log.args;
+
+  if (log.eventName === 'Swap') {
+    if (sqrtPriceX96 === undefined || liquidity === undefined || tick === undefined) return undefined;
+    return {
+      apply: () => {
+        if (sub.v3) applySwap(sub.v3, sqrtPriceX96, tick, liquidity);
+      },
+    };
+  }
+
+  if (tickLower === undefined || tickUpper === undefined || amount === undefined) return undefined;
+  const delta = log.eventName === 'Mint' ? amount : -amount;
+  return {
+    apply: () => {
+      if (sub.v3) applyLiquidityDelta(sub.v3, tickLower, tickUpper, delta);
+    },
+    // A state read of a later block has the in-range liquidity, not the ticks
+    applyUnread: () => {
+      if (sub.v3) applyTickLiquidityDelta(sub.v3, tickLower, tickUpper, delta);
+    },
+  };
+}
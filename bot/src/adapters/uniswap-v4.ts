@@ -0,0 +1,269 @@
+import {
+  encodeAbiParameters,
+  getContract,
+  parseAbiItem,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool, V3PoolState } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { getRouterAddresses, groupByRouter, toLogUpdate } from './dex-adapter.js';
+import { countTicksCrossed, getTickEdges, isNearSnapshotEdge, loadTickSnapshot, quoteTicks } from './uniswap-v3.js';
+import { applyLiquidityDelta, applySwap, applyTickLiquidityDelta } from '../utils/uniswap-v3-math.js';
+import { DYNAMIC_FEE_FLAG, NATIVE_CURRENCY, POOL_KEY_ABI, canQuoteLocally, isDynamicFee } from '../utils/uniswap-v4.js';
+
+// Uniswap V4 pools are created inside the PoolManager singleton
+const INITIALIZE = parseAbiItem('event Initialize(bytes32 indexed id, address indexed currency0, address indexed currency1, uint24 fee, int24 tickSpacing, address hooks, uint160 sqrtPriceX96, int24 tick)');
+
+// Pool state lives in the PoolManager and is read through StateView
+const STATE_VIEW_ABI = [
+  parseAbiItem('function getSlot0(bytes32 poolId) view returns (uint160 sqrtPriceX96, int24 tick, uint24 protocolFee, uint24 lpFee)'),
+  parseAbiItem('function getLiquidity(bytes32 poolId) view returns (uint128 liquidity)'),
+  parseAbiItem('function getTickBitmap(bytes32 poolId, int16 tick) view returns (uint256 tickBitmap)'),
+  parseAbiItem('function getTickLiquidity(bytes32 poolId, int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet)'),
+] as const;
+
+// Emitted by the PoolManager for every pool, keyed by PoolId
+const POOL_EVENTS = [
+  parseAbiItem('event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)'),
+  parseAbiItem('event ModifyLiquidity(bytes32 indexed id, address indexed sender, int24 tickLower, int24 tickUpper, int256 liquidityDelta, bytes32 salt)'),
+] as const;
+
+const SWAP_GAS = 120_000n; // unlock, swap, sync, settle and take
+
+/**
+ * Uniswap V4: pools identified by PoolId inside the PoolManager, which is also the swap target
+ * Tick math is shared with V3
+ */
+export class UniswapV4Adapter implements DexAdapter {
+  readonly type = DexType.UniswapV4;
+  readonly events = POOL_EVENTS;
+
+  /**
+   * Native-ETH pools are skipped (the executor only swaps ERC20s), as are pools whose
+   * hooks can rewrite swap amounts and therefore cannot be quoted locally
+   */
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    const logs = await client.getLogs({ address: dex.factory, event: INITIALIZE, fromBlock, toBlock });
+    return logs.flatMap(log => {
+      const { id, currency0, currency1, fee, tickSpacing, hooks } = log.args;
+      if (!id || !currency0 || !currency1 || !hooks || fee === undefined || tickSpacing === undefined) return [];
+      if (currency0 === NATIVE_CURRENCY || !canQuoteLocally(hooks)) return [];
+      const dynamicFee = isDynamicFee(fee);
+      return [{
+        dex: dex.name,
+        dexType: dex.type,
+        factory: dex.factory,
+        address: id,
+        token0: currency0,
+        token1: currency1,
+        fee: dynamicFee ? undefined : fee / 100, // Convert to basis points
+        tickSpacing,
+        hooks,
+        dynamicFee,
+        createdBlock: log.blockNumber ?? toBlock,
+      }];
+    });
+  }
+
+  /**
+   * Load the tick snapshot through StateView
+   * The current LP fee comes from slot0, which also covers dynamic-fee pools
+   */
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    if (!dex.stateView) throw new Error(`No StateView configured for ${dex.name}`);
+    if (poolInfo.tickSpacing === undefined || !poolInfo.hooks) return null;
+
+    const view = getContract({ address: dex.stateView, abi: STATE_VIEW_ABI, client });
+    const poolId = poolInfo.address;
+
+    const [slot0, liquidity] = await Promise.all([
+      view.read.getSlot0([poolId]),
+      view.read.getLiquidity([poolId]),
+    ]);
+
+    const v3 = await loadPoolTicks(
+      client,
+      dex.stateView,
+      poolId,
+      { sqrtPriceX96: slot0[0], tick: slot0[1], liquidity, fee: slot0[3], tickSpacing: poolInfo.tickSpacing }
+    );
+
+    return {
+      pool: poolId,
+      dex: dex.name,
+      dexType: DexType.UniswapV4,
+      router: dex.router,
+      token0: poolInfo.token0,
+      token1: poolInfo.token1,
+      fee: v3.fee / 100, // Convert to basis points
+      v3,
+      poolKey: {
+        currency0: poolInfo.token0,
+        currency1: poolInfo.token1,
+        fee: poolInfo.dynamicFee ? DYNAMIC_FEE_FLAG : (poolInfo.fee ?? 0) * 100,
+        tickSpacing: poolInfo.tickSpacing,
+        hooks: poolInfo.hooks,
+      },
+      stateView: dex.stateView,
+      dynamicFee: poolInfo.dynamicFee,
+    };
+  }
+
+  /**
+   * Pools share their PoolManager's logs, which are matched to monitored pools on PoolId
+   */
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getRouterAddresses(subs);
+  }
+
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byId = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    return parseEventLogs({ abi: POOL_EVENTS, logs }).flatMap(log => {
+      const sub = byId.get(log.args.id.toLowerCase());
+      const update = sub && getLogUpdate(sub, log);
+      return sub && update ? [toLogUpdate(log, sub, update.apply, update.applyUnread)] : [];
+    });
+  }
+
+  /**
+   * Backfills filter the PoolManager's logs on the monitored PoolIds
+   */
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    const logs = await Promise.all(Array.from(groupByRouter(subs), ([manager, pools]) => {
+      const args = { id: pools.map(sub => sub.pool) };
+      return Promise.all([
+        client.getLogs({ address: manager, event: POOL_EVENTS[0], args, fromBlock, toBlock }),
+        client.getLogs({ address: manager, event: POOL_EVENTS[1], args, fromBlock, toBlock }),
+      ]);
+    }));
+    return this.decodeLogs(client, subs, logs.flat(2));
+  }
+
+  /**
+   * Re-read slot0 and liquidity through StateView; the tick snapshot is kept current by
+   * ModifyLiquidity logs and reloaded once the price reaches its outermost words
+   */
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    if (!sub.stateView) return () => {};
+
+    const view = { address: sub.stateView, abi: STATE_VIEW_ABI, blockNumber } as const;
+    const [slot0, liquidity] = await Promise.all([
+      client.readContract({ ...view, functionName: 'getSlot0', args: [sub.pool] }),
+      client.readContract({ ...view, functionName: 'getLiquidity', args: [sub.pool] }),
+    ]);
+
+    const reloaded = sub.v3 && isNearSnapshotEdge(sub.v3, slot0[1])
+      ? await loadPoolTicks(client, sub.stateView, sub.pool, { ...sub.v3, sqrtPriceX96: slot0[0], tick: slot0[1], liquidity }, blockNumber)
+      : undefined;
+
+    return () => {
+      if (reloaded) {
+        sub.v3 = reloaded;
+        sub.ticksBlock = blockNumber;
+      } else if (sub.v3) applySwap(sub.v3, slot0[0], slot0[1], liquidity);
+      else return;
+      setFee(sub, slot0[3]); // Hooks can change a dynamic fee without emitting an event
+    };
+  }
+
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    return getTickEdges(sub, tokens);
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    return quoteTicks(edge, amountIn);
+  }
+
+  encodeSwapData(edge: Edge): Hex {
+    if (!edge.poolKey) return '0x';
+    return encodeAbiParameters(POOL_KEY_ABI, [edge.poolKey]);
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+
+  getTicksCrossed(edge: Edge, amountIn: bigint): number {
+    return countTicksCrossed(edge, amountIn);
+  }
+}
+
+/**
+ * Tick snapshot of a pool read through StateView, optionally at a past block
+ */
+function loadPoolTicks(
+  client: PublicClient,
+  stateView: Address,
+  poolId: Hex,
+  current: Pick<V3PoolState, 'sqrtPriceX96' | 'tick' | 'liquidity' | 'fee' | 'tickSpacing'>,
+  blockNumber?: bigint
+): Promise<V3PoolState> {
+  const view = { address: stateView, abi: STATE_VIEW_ABI, blockNumber } as const;
+  return loadTickSnapshot(
+    current,
+    word => client.readContract({ ...view, functionName: 'getTickBitmap', args: [poolId, word] }),
+    async tick => {
+      const [liquidityGross, liquidityNet] = await client.readContract({ ...view, functionName: 'getTickLiquidity', args: [poolId, tick] });
+      return { liquidityGross, liquidityNet };
+    }
+  );
+}
+
+/**
+ * Set a pool's current LP fee (hundredths of a bip)
+ */
+function setFee(sub: PoolSubscription, fee: number): void {
+  if (!sub.v3) return;
+  sub.v3.fee = fee;
+  sub.fee = fee / 100;
+}
+
+/**
+ * Translate a V4 Swap/ModifyLiquidity log into a state update for its pool
+ */
+function getLogUpdate(
+  sub: PoolSubscription,
+  log: {
+    eventName: 'Swap' | 'ModifyLiquidity';
+    args: {
+      sqrtPriceX96?: bigint;
+      liquidity?: bigint;
+      tick?: number;
+      fee?: number;
+      tickLower?: number;
+      tickUpper?: number;
+      liquidityDelta?: bigint;
+    };
+  }
+): Pick<PoolLogUpdate, 'apply' | 'applyUnread'> | undefined {
+  const { sqrtPriceX96, liquidity, tick, fee, tickLower, tickUpper, liquidityDelta } = log.args;
+
+  if (log.eventName === 'Swap') {
+    if (sqrtPriceX96 === undefined || liquidity === undefined || tick === undefined) return undefined;
+    return {
+      apply: () => {
+        if (!sub.v3) return;
+        applySwap(sub.v3, sqrtPriceX96, tick, liquidity);
+        // Dynamic-fee hooks may charge a different fee per swap; the latest is the best estimate
+        if (sub.dynamicFee && fee !== undefined) setFee(sub, fee);
+      },
+    };
+  }
+
+  if (tickLower === undefined || tickUpper === undefined || liquidityDelta === undefined) return undefined;
+  return {
+    apply: () => {
+      if (sub.v3) applyLiquidityDelta(sub.v3, tickLower, tickUpper, liquidityDelta);
+    },
+    // A state read of a later block has the in-range liquidity, not the ticks
+    applyUnread: () => {
+      if (sub.v3) applyTickLiquidityDelta(sub.v3, tickLower, tickUpper, liquidityDelta);
+    },
+  };
+}
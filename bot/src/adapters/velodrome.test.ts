@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createPublicClient,
+  custom,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  hexToBigInt,
+  parseAbi,
+  parseAbiParameters,
+  type Address,
+  type Hex,
+  type Log,
+} from 'viem';
+import { DexType } from '../types/index.js';
+import type { PoolSubscription, TokenContext } from './dex-adapter.js';
+import { VelodromeAdapter } from './velodrome.js';
+import { getAmountOut, getSpotRate } from '../utils/solidly-math.js';
+
+const address = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+const [USDC, DAI] = [address(1), address(2)];
+const [POOL, OTHER] = [address(101), address(102)];
+const E6 = 10n ** 6n;
+const E18 = 10n ** 18n;
+
+const POOL_ABI = parseAbi(['function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)']);
+
+const adapter = new VelodromeAdapter();
+
+// The registry knows neither token's decimals: the pool's own are used
+const tokens: TokenContext = {
+  getDecimals: () => 18,
+  getProbeAmount: token => (token === USDC ? 100n * E6 : 100n * E18),
+};
+
+// A USDC/DAI stable pool, 0.05% fee
+const subscribe = (): PoolSubscription => ({
+  pool: POOL,
+  dex: 'Test',
+  dexType: DexType.Velodrome,
+  router: address(200),
+  token0: USDC,
+  token1: DAI,
+  fee: 5,
+  stable: true,
+  decimals0: 6,
+  decimals1: 18,
+  reserve0: 1_000_000n * E6,
+  reserve1: 1_000_000n * E18,
+});
+
+const syncLog = (pool: Address, reserve0: bigint, reserve1: bigint, blockNumber: bigint, logIndex: number): Log => {
+  const [topic] = encodeEventTopics({ abi: adapter.events, eventName: 'Sync' });
+  return {
+    address: pool,
+    topics: topic ? [topic] : [],
+    data: encodeAbiParameters(parseAbiParameters('uint256, uint256'), [reserve0, reserve1]),
+    blockNumber,
+    blockHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+    logIndex,
+    transactionHash: `0x${'0'.repeat(63)}1`,
+    transactionIndex: 0,
+    removed: false,
+  };
+};
+
+// Answers getReserves with the reserves of the block asked for
+const createClient = (reservesAt: (block: bigint) => [bigint, bigint]) => createPublicClient({
+  transport: custom({
+    async request({ method, params }) {
+      if (method !== 'eth_call') throw new Error(`Unexpected ${method}`);
+      const [, block] = params as [unknown, Hex];
+      const [reserve0, reserve1] = reservesAt(hexToBigInt(block));
+      return encodeFunctionResult({ abi: POOL_ABI, functionName: 'getReserves', result: [reserve0, reserve1, 0n] });
+    },
+  }),
+});
+
+describe('VelodromeAdapter', () => {
+  it('decodes the uint256 Sync logs of subscribed pools into reserve updates', async () => {
+    const sub = subscribe();
+    const updates = await adapter.decodeLogs(createClient(() => [0n, 0n]), [sub], [
+      syncLog(OTHER, 1n, 1n, 9n, 0),
+      syncLog(POOL, 999_000n * E6, 1_001_000n * E18, 9n, 1),
+    ]);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0]).toMatchObject({ blockNumber: 9n, logIndex: 1, sub });
+
+    updates[0]?.apply();
+    expect(sub.reserve0).toBe(999_000n * E6);
+    expect(sub.reserve1).toBe(1_001_000n * E18);
+  });
+
+  it('reads the reserves at the given block and applies them on demand', async () => {
+    const sub = subscribe();
+    const apply = await adapter.readState(createClient(block => [block * E6, block * E18]), sub, 500n);
+    expect(sub.reserve0).toBe(1_000_000n * E6);
+
+    apply();
+    expect(sub.reserve0).toBe(500n * E6);
+    expect(sub.reserve1).toBe(500n * E18);
+  });
+
+  it('prices edges on the pool curve with its own decimals', () => {
+    const [forward, reverse] = adapter.getEdges(subscribe(), tokens);
+
+    expect(forward).toMatchObject({ from: USDC, to: DAI, fee: 5, stable: true, fromDecimals: 6, toDecimals: 18 });
+    expect(reverse).toMatchObject({ from: DAI, to: USDC, reserve0: 1_000_000n * E18, reserve1: 1_000_000n * E6 });
+    const rate = getSpotRate(1_000_000n * E6, 1_000_000n * E18, 5, true, 6, 18, 100n * E6);
+    expect(forward?.weight).toBeCloseTo(-Math.log(rate), 12);
+    // Near par on a stable curve: about 1e12 DAI wei per USDC unit, less the fee
+    expect(rate / 1e12).toBeCloseTo(0.9995, 4);
+  });
+
+  it('quotes with the curve type, and not at all without it', () => {
+    const [forward] = adapter.getEdges(subscribe(), tokens);
+    const [unknown] = adapter.getEdges({ ...subscribe(), stable: undefined }, tokens);
+    if (!forward || !unknown) throw new Error('No edges');
+
+    expect(adapter.quote(forward, 1000n * E6)).toBe(getAmountOut(1_000_000n * E6, 1_000_000n * E18, 1000n * E6, 5, true, 6, 18));
+    expect(adapter.quote(unknown, 1000n * E6)).toBeNull();
+  });
+});
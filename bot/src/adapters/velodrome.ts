@@ -0,0 +1,185 @@
+import {
+  encodeAbiParameters,
+  getContract,
+  parseAbiItem,
+  parseAbiParameters,
+  parseEventLogs,
+  type Address,
+  type Hex,
+  type Log,
+  type PublicClient,
+} from 'viem';
+import type { DexConfig, Edge, PoolInfo, RegisteredPool } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { DexAdapter, PoolLogUpdate, PoolSubscription, TokenContext } from './dex-adapter.js';
+import { edgeWeight, getPoolAddresses, toLogUpdate } from './dex-adapter.js';
+import { getAmountOut, getSpotRate } from '../utils/solidly-math.js';
+
+const POOL_CREATED = parseAbiItem('event PoolCreated(address indexed token0, address indexed token1, bool indexed stable, address pool, uint256 poolCount)');
+
+// Velodrome V2 / Aerodrome pools emit Sync with uint256 reserves, so the topic differs from V2
+const POOL_ABI = [
+  parseAbiItem('event Sync(uint256 reserve0, uint256 reserve1)'),
+  parseAbiItem('function getReserves() view returns (uint256 reserve0, uint256 reserve1, uint256 blockTimestampLast)'),
+  parseAbiItem('function stable() view returns (bool)'),
+] as const;
+
+const FACTORY_ABI = [
+  parseAbiItem('function getFee(address pool, bool stable) view returns (uint256)'),
+] as const;
+
+const ERC20_ABI = [
+  parseAbiItem('function decimals() view returns (uint8)'),
+] as const;
+
+const SWAP_GAS = 90_000n;
+
+/**
+ * Velodrome V2 / Aerodrome: volatile (x·y) and stable (x³y+y³x) pools swapped through the router
+ */
+export class VelodromeAdapter implements DexAdapter {
+  readonly type = DexType.Velodrome;
+  readonly events = [POOL_ABI[0]];
+
+  async fetchPools(client: PublicClient, dex: DexConfig, fromBlock: bigint, toBlock: bigint): Promise<RegisteredPool[]> {
+    const logs = await client.getLogs({ address: dex.factory, event: POOL_CREATED, fromBlock, toBlock });
+    return logs.flatMap(log => {
+      const { token0, token1, stable, pool } = log.args;
+      if (!token0 || !token1 || !pool || stable === undefined) return [];
+      return [{
+        dex: dex.name,
+        dexType: dex.type,
+        factory: dex.factory,
+        address: pool,
+        token0,
+        token1,
+        stable,
+        createdBlock: log.blockNumber ?? toBlock,
+      }];
+    });
+  }
+
+  /**
+   * Each pool's curve type and fee are read on-chain (the factory can set custom fees per pool)
+   */
+  async loadPool(client: PublicClient, dex: DexConfig, poolInfo: PoolInfo): Promise<PoolSubscription | null> {
+    const pool = getContract({ address: poolInfo.address, abi: POOL_ABI, client });
+
+    const stable = await pool.read.stable();
+    const [[reserve0, reserve1], fee, decimals0, decimals1] = await Promise.all([
+      pool.read.getReserves(),
+      client.readContract({
+        address: dex.factory,
+        abi: FACTORY_ABI,
+        functionName: 'getFee',
+        args: [poolInfo.address, stable],
+      }),
+      client.readContract({ address: poolInfo.token0, abi: ERC20_ABI, functionName: 'decimals' }),
+      client.readContract({ address: poolInfo.token1, abi: ERC20_ABI, functionName: 'decimals' }),
+    ]);
+
+    return {
+      pool: poolInfo.address,
+      dex: dex.name,
+      dexType: DexType.Velodrome,
+      router: dex.router,
+      token0: poolInfo.token0,
+      token1: poolInfo.token1,
+      fee: Number(fee), // Factory fees are already in basis points
+      stable,
+      decimals0,
+      decimals1,
+      reserve0,
+      reserve1,
+    };
+  }
+
+  getLogAddresses(subs: PoolSubscription[]): Address[] {
+    return getPoolAddresses(subs);
+  }
+
+  async decodeLogs(_client: PublicClient, subs: PoolSubscription[], logs: Log[]): Promise<PoolLogUpdate[]> {
+    const byAddress = new Map(subs.map(sub => [sub.pool.toLowerCase(), sub]));
+
+    return parseEventLogs({ abi: POOL_ABI, eventName: 'Sync', logs }).flatMap(log => {
+      const sub = byAddress.get(log.address.toLowerCase());
+      const { reserve0, reserve1 } = log.args;
+      if (!sub) return [];
+      return [toLogUpdate(log, sub, () => Object.assign(sub, { reserve0, reserve1 }))];
+    });
+  }
+
+  async fetchLogs(client: PublicClient, subs: PoolSubscription[], fromBlock: bigint, toBlock: bigint): Promise<PoolLogUpdate[]> {
+    if (subs.length === 0) return [];
+    const logs = await client.getLogs({ address: getPoolAddresses(subs), event: POOL_ABI[0], fromBlock, toBlock });
+    return this.decodeLogs(client, subs, logs);
+  }
+
+  async readState(client: PublicClient, sub: PoolSubscription, blockNumber?: bigint): Promise<() => void> {
+    const [reserve0, reserve1] = await client.readContract({
+      address: sub.pool,
+      abi: POOL_ABI,
+      functionName: 'getReserves',
+      blockNumber,
+    });
+    return () => Object.assign(sub, { reserve0, reserve1 });
+  }
+
+  /**
+   * Edges carry the pool's curve type and token decimals for exact quoting
+   */
+  getEdges(sub: PoolSubscription, tokens: TokenContext): Edge[] {
+    const reserve0 = sub.reserve0 ?? 0n;
+    const reserve1 = sub.reserve1 ?? 0n;
+    const decimals0 = sub.decimals0 ?? tokens.getDecimals(sub.token0);
+    const decimals1 = sub.decimals1 ?? tokens.getDecimals(sub.token1);
+    const stable = sub.stable === true;
+    const base = { pool: sub.pool, dex: sub.dex, dexType: sub.dexType, router: sub.router, fee: sub.fee, stable: sub.stable };
+
+    return [
+      {
+        ...base,
+        from: sub.token0,
+        to: sub.token1,
+        weight: edgeWeight(getSpotRate(reserve0, reserve1, sub.fee, stable, decimals0, decimals1, tokens.getProbeAmount(sub.token0))),
+        reserve0,
+        reserve1,
+        fromDecimals: decimals0,
+        toDecimals: decimals1,
+      },
+      {
+        ...base,
+        from: sub.token1,
+        to: sub.token0,
+        weight: edgeWeight(getSpotRate(reserve1, reserve0, sub.fee, stable, decimals1, decimals0, tokens.getProbeAmount(sub.token1))),
+        reserve0: reserve1,
+        reserve1: reserve0,
+        fromDecimals: decimals1,
+        toDecimals: decimals0,
+      },
+    ];
+  }
+
+  quote(edge: Edge, amountIn: bigint): bigint | null {
+    // Without the on-chain curve type the router would be sent to the wrong pool
+    if (edge.stable === undefined) return null;
+    const amountOut = getAmountOut(
+      edge.reserve0,
+      edge.reserve1,
+      amountIn,
+      edge.fee,
+      edge.stable,
+      edge.fromDecimals,
+      edge.toDecimals
+    );
+    return amountOut > 0n ? amountOut : null;
+  }
+
+  encodeSwapData(edge: Edge): Hex {
+    return encodeAbiParameters(parseAbiParameters('bool'), [edge.stable ?? false]);
+  }
+
+  estimateGas(): bigint {
+    return SWAP_GAS;
+  }
+}
@@ -0,0 +1,153 @@
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { isAddress, parseAbiItem, type Address, type PublicClient } from 'viem';
+import type { ChainId, ChainTokenConfig, TokenInfo, TokenPairConfig } from '../types/index.js';
+import { CHAIN_CONFIGS } from './chains.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'token-config' });
+
+const DEFAULT_CONFIG_DIR = process.env.TOKEN_CONFIG_DIR || 'config/tokens';
+
+const ERC20_METADATA_ABI = [
+  parseAbiItem('function decimals() view returns (uint8)'),
+  parseAbiItem('function symbol() view returns (string)'),
+] as const;
+
+// On-disk format: pairs and base tokens reference tokens by symbol or address
+interface TokenConfigFile {
+  chainId: number;
+  tokens: TokenInfo[];
+  pairs?: { tokens: string[]; fees?: number[] }[];
+  baseTokens?: string[];
+}
+
+/**
+ * Load and statically validate a chain's token universe from `<dir>/<chainId>.json`
+ * Addresses must be EIP-55 checksummed; all problems are reported in one error
+ */
+export async function loadTokenConfig(chainId: ChainId, dir: string = DEFAULT_CONFIG_DIR): Promise<ChainTokenConfig> {
+  const filePath = join(dir, `${chainId}.json`);
+
+  let data: TokenConfigFile;
+  try {
+    data = JSON.parse(await readFile(filePath, 'utf8')) as TokenConfigFile;
+  } catch (error) {
+    throw new Error(`Cannot read token config ${filePath}: ${(error as Error).message}`);
+  }
+
+  const problems: string[] = [];
+  if (data.chainId !== chainId) {
+    problems.push(`chainId is ${data.chainId}, expected ${chainId}`);
+  }
+
+  const bySymbol = new Map<string, TokenInfo>();
+  const byAddress = new Map<string, TokenInfo>();
+
+  for (const token of data.tokens ?? []) {
+    const label = token.symbol || token.address;
+    if (!isAddress(token.address, { strict: true })) {
+      problems.push(`${label}: ${token.address} is not a checksummed address`);
+      continue;
+    }
+    if (!token.symbol) problems.push(`${token.address}: missing symbol`);
+    if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 255) {
+      problems.push(`${label}: invalid decimals ${token.decimals}`);
+    }
+    if (bySymbol.has(token.symbol)) problems.push(`${label}: duplicate symbol`);
+    if (byAddress.has(token.address.toLowerCase())) problems.push(`${label}: duplicate address`);
+
+    bySymbol.set(token.symbol, token);
+    byAddress.set(token.address.toLowerCase(), token);
+  }
+
+  const resolve = (ref: string): TokenInfo | undefined =>
+    bySymbol.get(ref) ?? byAddress.get(ref.toLowerCase());
+
+  const pairs: TokenPairConfig[] = [];
+  for (const pair of data.pairs ?? []) {
+    const label = pair.tokens?.join('/');
+    const [a, b] = (pair.tokens ?? []).map(resolve);
+    if (pair.tokens?.length !== 2 || !a || !b) {
+      problems.push(`pair ${label}: tokens must be two configured symbols or addresses`);
+      continue;
+    }
+    if (a === b) {
+      problems.push(`pair ${label}: both sides are the same token`);
+      continue;
+    }
+    if (pair.fees?.some(fee => !(fee >= 0))) {
+      problems.push(`pair ${label}: invalid fee tier`);
+      continue;
+    }
+    pairs.push({ tokens: [a.address, b.address], fees: pair.fees });
+  }
+
+  const nativeToken = CHAIN_CONFIGS[chainId]?.nativeToken;
+  if (nativeToken && !byAddress.has(nativeToken.address.toLowerCase())) {
+    problems.push(`native token ${nativeToken.symbol} (${nativeToken.address}) is missing`);
+  }
+
+  // Flash-borrowable tokens cycles may start from, in preference order; defaults to the native token
+  const baseTokens: Address[] = [];
+  for (const ref of data.baseTokens ?? (nativeToken ? [nativeToken.address] : [])) {
+    const token = resolve(ref);
+    if (!token) {
+      problems.push(`base token ${ref}: not a configured symbol or address`);
+    } else if (baseTokens.includes(token.address)) {
+      problems.push(`base token ${ref}: listed twice`);
+    } else {
+      baseTokens.push(token.address);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid token config ${filePath}:\n  ${problems.join('\n  ')}`);
+  }
+
+  return { chainId, tokens: Array.from(byAddress.values()), pairs, baseTokens };
+}
+
+/**
+ * Check every configured token's decimals() and symbol() against the chain
+ * Reads are issued together so the client merges them into Multicall3 batches
+ */
+export async function verifyTokenConfig(client: PublicClient, config: ChainTokenConfig): Promise<void> {
+  const results = await Promise.all(config.tokens.map(async (token): Promise<string | null> => {
+    try {
+      const [decimals, symbol] = await Promise.all([
+        client.readContract({ address: token.address, abi: ERC20_METADATA_ABI, functionName: 'decimals' }),
+        client.readContract({ address: token.address, abi: ERC20_METADATA_ABI, functionName: 'symbol' }),
+      ]);
+
+      const mismatches: string[] = [];
+      if (decimals !== token.decimals) mismatches.push(`decimals ${decimals} != ${token.decimals}`);
+      if (symbol !== token.symbol) mismatches.push(`symbol "${symbol}" != "${token.symbol}"`);
+      return mismatches.length > 0 ? `${token.symbol} (${token.address}): ${mismatches.join(', ')}` : null;
+    } catch (error) {
+      return `${token.symbol} (${token.address}): metadata read failed (${(error as Error).message.split('\n')[0]})`;
+    }
+  }));
+
+  const problems = results.filter((r): r is string => r !== null);
+  if (problems.length > 0) {
+    throw new Error(`Token config for chain ${config.chainId} does not match on-chain metadata:\n  ${problems.join('\n  ')}`);
+  }
+
+  logger.info({ chainId: config.chainId, tokens: config.tokens.length, pairs: config.pairs.length }, 'Token config verified');
+}
+
+/**
+ * Whether a pool's tokens and fee tier match one of the configured pairs
+ */
+export function matchesPair(pairs: TokenPairConfig[], tokenA: Address, tokenB: Address, fee?: number): boolean {
+  const a = tokenA.toLowerCase();
+  const b = tokenB.toLowerCase();
+
+  return pairs.some(({ tokens: [x, y], fees }) => {
+    const sameTokens =
+      (x.toLowerCase() === a && y.toLowerCase() === b) ||
+      (x.toLowerCase() === b && y.toLowerCase() === a);
+    return sameTokens && (!fees || fee === undefined || fees.includes(fee));
+  });
+}
@@ -1,8 +1,12 @@
 import 'dotenv/config';
 import { PriceMonitor } from './services/price-monitor.js';
 import { TradeExecutor } from './services/executor.js';
+import { GasModel, getDefaults, type GasParams } from './services/gas-model.js';
 import type { ArbitrageOpportunity, BotConfig, ChainId, BotState, TradeHistory } from './types/index.js';
+import { DexType } from './types/index.js';
 import { CHAIN_CONFIGS } from './config/chains.js';
+import { selectOpportunities } from './utils/opportunity-selection.js';
+import { getPriceFeed } from './utils/price-feed.js';
 import pino from 'pino';
 import { createServer } from 'http';
 
@@ -35,6 +39,10 @@ let isProcessing = false;
 const BALANCE_CACHE_MS = Number(process.env.BALANCE_CACHE_MS) || 15000;
 const balanceCache = new Map<ChainId, { value: string; fetchedAt: number }>();
 
+// Gas prices used to value opportunities, refetched at most this often per chain
+const GAS_PRICE_CACHE_MS = Number(process.env.GAS_PRICE_CACHE_MS) || 5000;
+const gasPriceCache = new Map<ChainId, { value: bigint; fetchedAt: number }>();
+
 // Configuration
 function loadConfig(): BotConfig {
   const privateKey = process.env.PRIVATE_KEY;
@@ -49,7 +57,7 @@ function loadConfig(): BotConfig {
   return {
     minProfitUsd: Number(process.env.MIN_PROFIT_USD) || 10,
     maxGasPriceGwei: Number(process.env.MAX_GAS_PRICE_GWEI) || 100,
-    maxSlippageBps: Number(process.env.MAX_SLIPPAGE_BPS) || 50,
+    maxProfitShortfallBps: Number(process.env.MAX_PROFIT_SHORTFALL_BPS) || 50,
     simulateBeforeExecute: process.env.SIMULATE !== 'false',
     dryRun: process.env.DRY_RUN === 'true',
     maxConcurrentTrades: Number(process.env.MAX_CONCURRENT_TRADES) || 1,
@@ -60,6 +68,77 @@ function loadConfig(): BotConfig {
   };
 }
 
+async function getGasPrice(executor: TradeExecutor, chainId: ChainId): Promise<bigint | null> {
+  const cached = gasPriceCache.get(chainId);
+  if (cached && Date.now() - cached.fetchedAt < GAS_PRICE_CACHE_MS) return cached.value;
+
+  try {
+    const value = await executor.getGasPrice(chainId);
+    if (value !== null) gasPriceCache.set(chainId, { value, fetchedAt: Date.now() });
+    return value;
+  } catch (error) {
+    logger.warn({ chainId, err: error }, 'Failed to fetch gas price');
+    return cached?.value ?? null;
+  }
+}
+
+async function getL1Fee(executor: TradeExecutor, opp: ArbitrageOpportunity): Promise<bigint | null> {
+  try {
+    return await executor.getL1Fee(opp);
+  } catch (error) {
+    logger.warn({ chainId: opp.chain, err: error }, 'Failed to estimate L1 data fee');
+    return null;
+  }
+}
+
+/**
+ * Value an opportunity in USD: its profit at the input token's price and decimals, its gas
+ * at the chain's current gas price, at the native token price
+ * Returns false, leaving it unvalued, when a price is unavailable
+ */
+async function valueOpportunity(opp: ArbitrageOpportunity, monitor: PriceMonitor, executor: TradeExecutor): Promise<boolean> {
+  const nativeToken = CHAIN_CONFIGS[opp.chain]?.nativeToken;
+  const decimals = monitor.getTokenDecimals(opp.chain, opp.inputToken);
+  if (!nativeToken || decimals === undefined) return false;
+
+  const priceFeed = getPriceFeed();
+  const [quote, nativeQuote, gasPrice] = await Promise.all([
+    priceFeed.getTokenQuote(opp.inputToken),
+    priceFeed.getTokenQuote(nativeToken.address),
+    getGasPrice(executor, opp.chain),
+  ]);
+  if (!quote || !nativeQuote || gasPrice === null) return false;
+
+  opp.profitUsd = (Number(opp.expectedProfit) / 10 ** decimals) * quote.price;
+  opp.gasCostUsd = (Number(opp.gasEstimate * gasPrice) / 10 ** nativeToken.decimals) * nativeQuote.price;
+  opp.netProfitUsd = opp.profitUsd - opp.gasCostUsd;
+  opp.priceSource = quote.source;
+  opp.priceAgeMs = quote.updatedAt && Date.now() - quote.updatedAt.getTime();
+  return true;
+}
+
+/**
+ * Add a rollup's L1 data fee to a valued opportunity's gas cost, at the native token price
+ * Estimating it takes an RPC call per opportunity, so only those profitable without it get one
+ * Returns false when the fee or price is unavailable
+ */
+async function addL1Fee(opp: ArbitrageOpportunity, executor: TradeExecutor): Promise<boolean> {
+  const nativeToken = CHAIN_CONFIGS[opp.chain]?.nativeToken;
+  if (!nativeToken) return false;
+  if (!CHAIN_CONFIGS[opp.chain]?.l1DataFee) return true;
+
+  const [nativeQuote, l1Fee] = await Promise.all([
+    getPriceFeed().getTokenQuote(nativeToken.address),
+    getL1Fee(executor, opp),
+  ]);
+  if (!nativeQuote || l1Fee === null) return false;
+
+  const l1FeeUsd = (Number(l1Fee) / 10 ** nativeToken.decimals) * nativeQuote.price;
+  opp.gasCostUsd += l1FeeUsd;
+  opp.netProfitUsd -= l1FeeUsd;
+  return true;
+}
+
 // Process opportunity queue
 async function processQueue(executor: TradeExecutor, config: BotConfig): Promise<void> {
   if (isProcessing || state.isPaused || opportunityQueue.length === 0) return;
@@ -127,7 +206,7 @@ async function processQueue(executor: TradeExecutor, config: BotConfig): Promise
         profitUsd: result.success ? opportunity.profitUsd : 0,
         gasUsed: result.gasUsed || 0n,
         gasCostUsd: opportunity.gasCostUsd,
-        path: opportunity.path.map(s => s.tokenOut),
+        path: opportunity.path.map(s => s.tokenOut).filter((token, i, tokens) => token !== tokens[i - 1]), // Split hops listed once
         success: result.success,
         error: result.error,
       });
@@ -145,8 +224,19 @@ async function processQueue(executor: TradeExecutor, config: BotConfig): Promise
   }
 }
 
+// Gas model parameters with DEX types by name
+function formatGasParams(params: GasParams) {
+  return {
+    ...params,
+    base: Object.fromEntries(Object.entries(params.base).map(([provider, gas]) => [provider, Math.round(gas)])),
+    swap: Object.fromEntries(Object.entries(params.swap).map(([type, gas]) => [DexType[Number(type)], Math.round(gas)])),
+    tickCross: Math.round(params.tickCross),
+    errorPct: Number(params.errorPct.toFixed(2)),
+  };
+}
+
 // Simple HTTP API server for UI
-function startApiServer(port: number, monitor: PriceMonitor, executor: TradeExecutor): void {
+function startApiServer(port: number, monitor: PriceMonitor, executor: TradeExecutor, gasModel: GasModel): void {
   const server = createServer(async (req, res) => {
     // CORS headers
     res.setHeader('Access-Control-Allow-Origin', '*');
@@ -185,12 +275,24 @@ function startApiServer(port: number, monitor: PriceMonitor, executor: TradeExec
           }
         }
 
+        // Per-chain sync progress, to alert on chains that stop receiving events
+        const sync: Record<number, { inSync: boolean; lastBlock?: string; lastEventBlock?: string; stalePools: number }> = {};
+        for (const chainId of state.currentChains) {
+          const status = monitor.getSyncStatus(chainId);
+          sync[chainId] = {
+            ...status,
+            lastBlock: status.lastBlock?.toString(),
+            lastEventBlock: status.lastEventBlock?.toString(),
+          };
+        }
+
         res.writeHead(200);
         res.end(JSON.stringify({
           ...state,
           totalProfit: state.totalProfit.toString(),
           address: executor.getAddress(),
           balances,
+          sync,
           uptime: Date.now() - state.uptime,
         }));
       } else if (url.pathname === '/api/trades') {
@@ -209,7 +311,16 @@ function startApiServer(port: number, monitor: PriceMonitor, executor: TradeExec
           inputAmount: o.inputAmount.toString(),
           expectedOutput: o.expectedOutput.toString(),
           expectedProfit: o.expectedProfit.toString(),
+          minProfit: o.minProfit.toString(),
           gasEstimate: o.gasEstimate.toString(),
+          path: o.path.map(s => ({
+            ...s,
+            amountIn: s.amountIn.toString(),
+            expectedAmountOut: s.expectedAmountOut.toString(),
+            amountOutMin: s.amountOutMin.toString(),
+          })),
+          blockNumber: o.blockNumber.toString(),
+          sizeCurve: o.sizeCurve.map(p => ({ amountIn: p.amountIn.toString(), profit: p.profit.toString() })),
         }))));
       } else if (url.pathname === '/api/pools') {
         const chainId = Number(url.searchParams.get('chain')) as ChainId;
@@ -220,6 +331,14 @@ function startApiServer(port: number, monitor: PriceMonitor, executor: TradeExec
           reserve0: r.reserve0.toString(),
           reserve1: r.reserve1.toString(),
         }))));
+      } else if (url.pathname === '/api/gas-model') {
+        // Calibrated parameters next to the defaults, to watch them drift
+        const chains: Record<number, ReturnType<typeof formatGasParams>> = {};
+        for (const [chainId, params] of gasModel.getParams()) {
+          chains[chainId] = formatGasParams(params);
+        }
+        res.writeHead(200);
+        res.end(JSON.stringify({ defaults: formatGasParams(getDefaults()), chains }));
       } else if (url.pathname === '/api/pause' && req.method === 'POST') {
         state.isPaused = true;
         res.writeHead(200);
@@ -234,7 +353,7 @@ function startApiServer(port: number, monitor: PriceMonitor, executor: TradeExec
         res.end(JSON.stringify({
           minProfitUsd: config.minProfitUsd,
           maxGasPriceGwei: config.maxGasPriceGwei,
-          maxSlippageBps: config.maxSlippageBps,
+          maxProfitShortfallBps: config.maxProfitShortfallBps,
           dryRun: config.dryRun,
           enabledChains: config.enabledChains,
           flashbotsEnabled: config.flashbotsEnabled,
@@ -269,40 +388,95 @@ async function main(): Promise<void> {
   }, 'Configuration loaded');
 
   // Initialize components
-  const monitor = new PriceMonitor(config.enabledChains);
-  const executor = new TradeExecutor(config);
+  const monitor = new PriceMonitor(config.enabledChains, config.maxProfitShortfallBps);
+  const gasModel = new GasModel();
+  const executor = new TradeExecutor(config, gasModel);
+
+  // Detection workers estimate gas with their own copy of the model
+  gasModel.onCalibrated(() => monitor.setGasModel(gasModel.snapshot()));
 
   logger.info({ address: executor.getAddress() }, 'Wallet loaded');
 
   // Initialize pools
   await monitor.initialize();
 
+  // Opportunities computed on orphaned blocks are no longer valid
+  monitor.onReorg((event) => {
+    const before = opportunityQueue.length;
+    for (let i = opportunityQueue.length - 1; i >= 0; i--) {
+      const opp = opportunityQueue[i];
+      if (opp && opp.chain === event.chain && opp.blockNumber >= event.forkBlock) {
+        opportunityQueue.splice(i, 1);
+      }
+    }
+
+    logger.warn({
+      chain: CHAIN_CONFIGS[event.chain]?.name,
+      forkBlock: event.forkBlock.toString(),
+      depth: event.depth,
+      discarded: before - opportunityQueue.length,
+    }, 'Reorg detected, discarded queued opportunities');
+  });
+
   // Set up opportunity handler
-  monitor.onOpportunity((opportunities) => {
-    for (const opp of opportunities) {
-      // Calculate USD values (simplified - should use price feeds)
-      const ethPriceUsd = 3000; // TODO: Get from oracle
-      const profitEth = Number(opp.expectedProfit) / 1e18;
-      const gasCostEth = Number(opp.gasEstimate * 30n * 10n ** 9n) / 1e18; // Assume 30 gwei
-      
-      opp.profitUsd = profitEth * ethPriceUsd;
-      opp.gasCostUsd = gasCostEth * ethPriceUsd;
-      opp.netProfitUsd = opp.profitUsd - opp.gasCostUsd;
+  monitor.onOpportunity(async (opportunities) => {
+    // Callers drop the returned promise, so nothing may escape it
+    try {
+      const valued = await Promise.all(opportunities.map(opp => valueOpportunity(opp, monitor, executor)));
+
+      const candidates: ArbitrageOpportunity[] = [];
+      opportunities.forEach((opp, i) => {
+        if (!valued[i]) {
+          logger.debug({ id: opp.id, inputToken: opp.inputToken }, 'Opportunity could not be priced, skipped');
+        } else if (opp.netProfitUsd >= config.minProfitUsd) {
+          candidates.push(opp);
+        }
+      });
+
+      // The L1 data fee only lowers the profit, so it is estimated for the survivors alone
+      const withL1Fee = await Promise.all(candidates.map(opp => addL1Fee(opp, executor)));
+      const profitable = candidates.filter((opp, i) => {
+        if (!withL1Fee[i]) {
+          logger.debug({ id: opp.id, chain: opp.chain }, 'Opportunity L1 data fee unavailable, skipped');
+          return false;
+        }
+        return opp.netProfitUsd >= config.minProfitUsd;
+      });
 
-      if (opp.netProfitUsd >= config.minProfitUsd) {
+      // Opportunities sharing pools invalidate each other: queue only the best disjoint set
+      const { selected, conflicting, unweighted } = selectOpportunities(profitable);
+      for (const opp of selected) {
         logger.info({
           id: opp.id,
           chain: CHAIN_CONFIGS[opp.chain]?.name,
+          block: opp.blockNumber.toString(),
           profitUsd: opp.netProfitUsd.toFixed(2),
           confidence: opp.confidence.toFixed(2),
+          priceSource: opp.priceSource,
         }, 'Opportunity found');
-        
+
         opportunityQueue.push(opp);
       }
-    }
+      for (const opp of conflicting) {
+        logger.debug({
+          id: opp.id,
+          profitUsd: opp.netProfitUsd.toFixed(2),
+          conflictsWith: opp.conflictsWith,
+        }, 'Opportunity conflicts with a better set, not queued');
+      }
+      for (const opp of unweighted) {
+        logger.debug({
+          id: opp.id,
+          profitUsd: opp.netProfitUsd.toFixed(2),
+          confidence: opp.confidence.toFixed(2),
+        }, 'Opportunity has no confidence-weighted profit, not queued');
+      }
 
-    // Process queue
-    processQueue(executor, config);
+      // Process queue
+      processQueue(executor, config);
+    } catch (error) {
+      logger.error({ error }, 'Opportunity handling failed');
+    }
   });
 
   // Start monitoring
@@ -314,7 +488,7 @@ async function main(): Promise<void> {
 
   // Start API server
   const apiPort = Number(process.env.API_PORT) || 3001;
-  startApiServer(apiPort, monitor, executor);
+  startApiServer(apiPort, monitor, executor, gasModel);
 
   logger.info('Bot started successfully');
 
@@ -1,12 +1,30 @@
 import type { Address } from 'viem';
-import type { Edge, Graph, ArbitrageOpportunity, SwapStep, ChainId } from '../types/index.js';
+import type { Edge, Graph, ArbitrageOpportunity, SwapStep, ChainId, FlashloanProvider, SizePoint } from '../types/index.js';
 import { DexType } from '../types/index.js';
-import { encodeAbiParameters, parseAbiParameters } from 'viem';
+import { getDexAdapter } from '../adapters/index.js';
+import { CHAIN_CONFIGS } from '../config/chains.js';
+import type { TokenRegistry } from './token-registry.js';
+import { CycleIndex, getCycleKey, type CycleHop } from './cycle-index.js';
+import { GasModel } from './gas-model.js';
+import { getOptimalConstantProductInput, maximizeProfit, splitAmount } from '../utils/sizing-math.js';
+import { getAmountOutMins, getMinProfit } from '../utils/slippage.js';
 import Decimal from 'decimal.js';
 
 // Configure Decimal.js for high precision
 Decimal.set({ precision: 50, rounding: Decimal.ROUND_DOWN });
 
+// Aave V3 flashloan premium (0.05%); Balancer flashloans are free
+const AAVE_FLASHLOAN_PREMIUM_BPS = 5n;
+
+// Pools with less than this much (USD) on either side of a hop lower an opportunity's confidence
+const MIN_LIQUIDITY_USD = Number(process.env.MIN_LIQUIDITY_USD) || 10_000;
+
+// Chunks a hop's amount is divided into when splitting it across parallel pools
+const SPLIT_CHUNKS = 16;
+
+// Sizes reported in an opportunity's profit curve, as multiples of the optimal size
+const SIZE_CURVE_MULTIPLES: [bigint, bigint][] = [[1n, 16n], [1n, 8n], [1n, 4n], [1n, 2n], [1n, 1n], [2n, 1n], [4n, 1n], [8n, 1n], [16n, 1n]];
+
 /**
  * Graph-based arbitrage detector using Bellman-Ford algorithm
  * Detects negative cycles which represent profitable arbitrage opportunities
@@ -14,11 +32,29 @@ Decimal.set({ precision: 50, rounding: Decimal.ROUND_DOWN });
 export class ArbitrageDetector {
   private graph: Graph;
   private chainId: ChainId;
+  private tokens: TokenRegistry;
+  private flashLiquidity: Map<string, bigint> = new Map(); // Balancer Vault balance per flash token
+  private cycleIndex: CycleIndex;
+  private changedPools: Set<string> = new Set(); // Pools updated since the last search
   private minProfitBps: number;
-
-  constructor(chainId: ChainId, minProfitBps: number = 10) {
+  private maxProfitShortfallBps: number; // Share of the expected profit a trade may come in short before it reverts
+  private gasModel: GasModel;
+  private aaveEnabled: boolean; // Chain has an Aave flashloan contract for cycles through Balancer pools
+
+  constructor(
+    chainId: ChainId,
+    tokens: TokenRegistry,
+    maxProfitShortfallBps: number,
+    minProfitBps: number = 10,
+    gasModel: GasModel = new GasModel()
+  ) {
     this.chainId = chainId;
+    this.tokens = tokens;
+    this.maxProfitShortfallBps = maxProfitShortfallBps;
     this.minProfitBps = minProfitBps;
+    this.gasModel = gasModel;
+    this.aaveEnabled = Boolean(CHAIN_CONFIGS[chainId]?.contracts.aaveArbitrage);
+    this.cycleIndex = new CycleIndex(CHAIN_CONFIGS[chainId]?.maxCycleHops);
     this.graph = {
       vertices: new Set(),
       edges: new Map(),
@@ -45,51 +81,46 @@ export class ArbitrageDetector {
     
     edges.push(edge);
     this.graph.edges.set(edge.from, edges);
+
+    this.cycleIndex.addHop(edge);
+    this.changedPools.add(edge.pool.toLowerCase());
   }
 
   /**
-   * Calculate exchange rate from reserves
-   * Accounts for DEX fees
+   * Remove every edge backed by a pool (e.g. while its state is stale)
    */
-  static calculateRate(
-    reserveIn: bigint,
-    reserveOut: bigint,
-    amountIn: bigint,
-    feeBps: number
-  ): { amountOut: bigint; rate: number } {
-    const feeMultiplier = 10000n - BigInt(feeBps);
-    const amountInWithFee = amountIn * feeMultiplier;
-    const numerator = amountInWithFee * reserveOut;
-    const denominator = reserveIn * 10000n + amountInWithFee;
-    const amountOut = numerator / denominator;
-    
-    const rate = Number(amountOut) / Number(amountIn);
-    return { amountOut, rate };
+  removePool(pool: Address): void {
+    const key = pool.toLowerCase();
+    for (const [from, edges] of this.graph.edges) {
+      this.graph.edges.set(from, edges.filter(e => e.pool.toLowerCase() !== key));
+    }
+    this.cycleIndex.removePool(pool);
+    this.changedPools.delete(key);
   }
 
   /**
-   * Calculate edge weight for Bellman-Ford
-   * Using -ln(rate) so that negative cycles = profitable arbitrage
+   * Record how much of a token the Balancer Vault can lend
    */
-  static calculateWeight(rate: number): number {
-    if (rate <= 0) return Infinity;
-    return -Math.log(rate);
+  setFlashLiquidity(token: Address, amount: bigint): void {
+    this.flashLiquidity.set(token.toLowerCase(), amount);
   }
 
   /**
-   * Run Bellman-Ford algorithm to find negative cycles (arbitrage opportunities)
+   * Full search: every indexed cycle of up to the chain's max hops whose rate is negative
+   * (profitable), plus longer negative cycles found by Bellman-Ford from every
+   * flash-borrowable base token
    */
   findArbitrageOpportunities(
-    sourceToken: Address,
-    inputAmount: bigint
+    baseTokens: Address[],
+    blockNumber: bigint
   ): ArbitrageOpportunity[] {
-    const opportunities: ArbitrageOpportunity[] = [];
     const vertices = Array.from(this.graph.vertices);
     const n = vertices.length;
+    this.changedPools.clear();
     
-    if (n === 0) return opportunities;
+    if (n === 0 || baseTokens.length === 0) return [];
 
-    // Initialize distances
+    // Initialize distances: every base token is a source
     const distance: Map<Address, number> = new Map();
     const predecessor: Map<Address, Edge | null> = new Map();
     
@@ -97,7 +128,9 @@ export class ArbitrageDetector {
       distance.set(v, Infinity);
       predecessor.set(v, null);
     }
-    distance.set(sourceToken, 0);
+    for (const v of vertices) {
+      if (baseTokens.some(t => sameToken(t, v))) distance.set(v, 0);
+    }
 
     // Relax edges V-1 times
     for (let i = 0; i < n - 1; i++) {
@@ -138,66 +171,79 @@ export class ArbitrageDetector {
       }
     }
 
-    // Extract cycles and calculate profits
-    for (const startVertex of negativeCycleVertices) {
-      const cycle = this.extractCycle(startVertex, predecessor);
-      if (cycle.length > 0 && cycle[0]?.from === sourceToken) {
-        const opportunity = this.buildOpportunity(cycle, inputAmount);
-        if (opportunity && opportunity.expectedProfit > 0n) {
-          opportunities.push(opportunity);
-        }
-      }
+    const cycles = Array.from(negativeCycleVertices, v => this.extractCycle(v, predecessor));
+    for (const hops of this.cycleIndex.getAllCycles()) {
+      const edges = this.resolveCycle(hops);
+      if (edges && isNegative(edges)) cycles.push(edges);
     }
 
-    // Also check direct 2-hop and 3-hop cycles from source
-    const directCycles = this.findDirectCycles(sourceToken, 3);
-    for (const cycle of directCycles) {
-      const opportunity = this.buildOpportunity(cycle, inputAmount);
-      if (opportunity && opportunity.expectedProfit > 0n) {
-        // Avoid duplicates
-        const isDuplicate = opportunities.some(
-          o => o.path.length === opportunity.path.length &&
-               o.path.every((step, i) => step.pool === opportunity.path[i]?.pool)
-        );
-        if (!isDuplicate) {
-          opportunities.push(opportunity);
-        }
+    return this.evaluateCycles(cycles, baseTokens, blockNumber);
+  }
+
+  /**
+   * Incremental search: re-evaluate only the indexed cycles through pools updated since the
+   * last search, keeping those whose rate is negative (profitable)
+   */
+  findChangedOpportunities(
+    baseTokens: Address[],
+    blockNumber: bigint
+  ): ArbitrageOpportunity[] {
+    const changed = Array.from(this.changedPools);
+    this.changedPools.clear();
+
+    const cycles: Edge[][] = [];
+    for (const pool of changed) {
+      for (const hops of this.cycleIndex.getCycles(pool as Address)) {
+        const edges = this.resolveCycle(hops);
+        if (edges && isNegative(edges)) cycles.push(edges);
       }
     }
 
-    // Sort by profit
-    return opportunities.sort((a, b) => 
-      Number(b.expectedProfit - a.expectedProfit)
-    );
+    return this.evaluateCycles(cycles, baseTokens, blockNumber);
   }
 
   /**
-   * Find direct cycles of specified max length starting from source
+   * Rotate each cycle onto a base token, skip rotations of cycles already seen, size the rest
+   * to their optimal input and rank them by profit at that size
    */
-  private findDirectCycles(source: Address, maxHops: number): Edge[][] {
-    const cycles: Edge[][] = [];
-    
-    const dfs = (current: Address, path: Edge[], visited: Set<string>) => {
-      if (path.length > maxHops) return;
-      
-      const edges = this.graph.edges.get(current) || [];
-      
-      for (const edge of edges) {
-        const edgeKey = `${edge.from}-${edge.to}-${edge.pool}`;
-        
-        if (edge.to === source && path.length >= 2) {
-          // Found a cycle back to source
-          cycles.push([...path, edge]);
-        } else if (!visited.has(edgeKey) && path.length < maxHops) {
-          visited.add(edgeKey);
-          dfs(edge.to, [...path, edge], visited);
-          visited.delete(edgeKey);
-        }
+  private evaluateCycles(
+    cycles: Edge[][],
+    baseTokens: Address[],
+    blockNumber: bigint
+  ): ArbitrageOpportunity[] {
+    const opportunities: ArbitrageOpportunity[] = [];
+    const seen = new Set<string>();
+
+    for (const found of cycles) {
+      const cycle = rotateToBaseToken(found, baseTokens);
+      if (!cycle) continue;
+
+      const key = getCycleKey(cycle);
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const opportunity = this.buildOpportunity(cycle, blockNumber);
+      if (opportunity && opportunity.expectedProfit > 0n) {
+        opportunities.push(opportunity);
       }
-    };
+    }
 
-    dfs(source, [], new Set());
-    return cycles;
+    // One opportunity per route; profits are in different tokens, so rank them in USD
+    const profitUsd = (o: ArbitrageOpportunity) => this.getValueUsd(o.inputToken, o.expectedProfit);
+    return bestPerRoute(opportunities).sort((a, b) => profitUsd(b) - profitUsd(a));
+  }
+
+  /**
+   * Current edges for a cycle's hops, or null if a pool has left the graph
+   */
+  private resolveCycle(hops: CycleHop[]): Edge[] | null {
+    const edges: Edge[] = [];
+    for (const hop of hops) {
+      const edge = this.graph.edges.get(hop.from)?.find(e => e.to === hop.to && e.pool === hop.pool);
+      if (!edge) return null;
+      edges.push(edge);
+    }
+    return edges;
   }
 
   /**
@@ -228,68 +274,57 @@ export class ArbitrageDetector {
   }
 
   /**
-   * Build ArbitrageOpportunity from a cycle of edges
+   * Build ArbitrageOpportunity from a cycle of edges, sized to its optimal input
+   * Each hop's amount is split across the parallel pools for its token pair
    */
   private buildOpportunity(
     cycle: Edge[],
-    inputAmount: bigint
+    blockNumber: bigint
   ): ArbitrageOpportunity | null {
-    if (cycle.length === 0) return null;
+    const firstStep = cycle[0];
+    if (!firstStep) return null;
 
-    const swapSteps: SwapStep[] = [];
-    let currentAmount = inputAmount;
+    // The Vault cannot be swapped through while it is lending, so cycles through its pools
+    // borrow from Aave, and are skipped on chains without the Aave contract
+    const flashloanProvider: FlashloanProvider = cycle.some(e => e.dexType === DexType.Balancer) ? 'aave' : 'balancer';
+    if (flashloanProvider === 'aave' && !this.aaveEnabled) return null;
+    const premiumBps = flashloanProvider === 'aave' ? AAVE_FLASHLOAN_PREMIUM_BPS : 0n;
+    const hops = this.getParallelHops(cycle, flashloanProvider);
+    const profitAt = (amountIn: bigint): bigint | null => {
+      const amountOut = quoteRoute(hops, amountIn)?.amountOut ?? null;
+      return amountOut === null ? null : amountOut - amountIn - (amountIn * premiumBps) / 10000n;
+    };
 
-    for (const edge of cycle) {
-      // Calculate output for this step
-      const isToken0ToToken1 = edge.from.toLowerCase() < edge.to.toLowerCase();
-      const reserveIn = isToken0ToToken1 ? edge.reserve0 : edge.reserve1;
-      const reserveOut = isToken0ToToken1 ? edge.reserve1 : edge.reserve0;
-
-      const { amountOut } = ArbitrageDetector.calculateRate(
-        reserveIn,
-        reserveOut,
-        currentAmount,
-        edge.fee
-      );
-
-      // Encode swap data based on DEX type
-      let data: `0x${string}`;
-      if (edge.dexType === DexType.UniswapV3) {
-        data = encodeAbiParameters(
-          parseAbiParameters('uint24'),
-          [edge.fee]
-        );
-      } else if (edge.dexType === DexType.Velodrome) {
-        const stable = edge.fee < 10; // Low fee = stable pool
-        data = encodeAbiParameters(
-          parseAbiParameters('bool'),
-          [stable]
-        );
-      } else {
-        data = '0x';
-      }
+    const inputAmount = this.getOptimalInput(hops, flashloanProvider, profitAt);
+    if (inputAmount <= 0n) return null;
 
-      swapSteps.push({
-        router: edge.router,
-        tokenIn: edge.from,
-        tokenOut: edge.to,
-        amountIn: currentAmount,
-        expectedAmountOut: amountOut,
-        pool: edge.pool,
-        dexType: edge.dexType,
-        data,
-      });
-
-      currentAmount = amountOut;
-    }
+    const route = quoteRoute(hops, inputAmount);
+    if (!route) return null;
 
-    const firstStep = cycle[0];
-    if (!firstStep) return null;
-    
-    const expectedProfit = currentAmount - inputAmount;
+    const currentAmount = route.amountOut;
+    const flashloanFee = (inputAmount * premiumBps) / 10000n;
+    const expectedProfit = currentAmount - inputAmount - flashloanFee;
+    const minProfit = getMinProfit(expectedProfit, this.maxProfitShortfallBps);
+    const amountOutMins = getAmountOutMins(
+      route.legs.map(hop => hop.map(leg => leg.amountOut)),
+      inputAmount + flashloanFee + minProfit
+    );
+
+    // One step per pool used; the steps of a split hop share its token pair
+    const swapSteps: SwapStep[] = route.legs.flatMap((hop, k) => hop.map(({ edge, amountIn, amountOut }, i) => ({
+      router: edge.router,
+      tokenIn: edge.from,
+      tokenOut: edge.to,
+      amountIn,
+      expectedAmountOut: amountOut,
+      amountOutMin: amountOutMins[k]?.[i] ?? 0n,
+      ticksCrossed: getDexAdapter(edge.dexType).getTicksCrossed?.(edge, amountIn),
+      pool: edge.pool,
+      dexType: edge.dexType,
+      data: getDexAdapter(edge.dexType).encodeSwapData(edge),
+    })));
     
-    // Estimate gas (rough estimate, should be simulated)
-    const gasEstimate = BigInt(150000 + cycle.length * 80000);
+    const gasEstimate = this.gasModel.estimate(this.chainId, flashloanProvider, swapSteps);
 
     return {
       id: `${this.chainId}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
@@ -299,16 +334,89 @@ export class ArbitrageDetector {
       inputAmount,
       expectedOutput: currentAmount,
       expectedProfit,
+      minProfit,
       profitUsd: 0, // Will be calculated with price feed
       gasEstimate,
       gasCostUsd: 0, // Will be calculated
       netProfitUsd: 0, // Will be calculated
       confidence: this.calculateConfidence(cycle, expectedProfit, inputAmount),
+      flashloanProvider,
+      sizeCurve: this.getSizeCurve(inputAmount, this.getMaxInput(hops, flashloanProvider), profitAt),
+      blockNumber,
       timestamp: Date.now(),
       expiresAt: Date.now() + 2000, // 2 second validity
     };
   }
 
+  /**
+   * For each hop of a cycle, its edge followed by the other pools trading the same pair
+   * Pools the cycle already swaps through elsewhere are left out, as are Balancer pools
+   * when the flashloan comes from the Balancer Vault
+   */
+  private getParallelHops(cycle: Edge[], flashloanProvider: FlashloanProvider): Edge[][] {
+    const used = new Set(cycle.map(edge => edge.pool.toLowerCase()));
+    return cycle.map(edge => [
+      edge,
+      ...(this.graph.edges.get(edge.from) || []).filter(e =>
+        e.to === edge.to &&
+        !used.has(e.pool.toLowerCase()) &&
+        (e.dexType !== DexType.Balancer || flashloanProvider === 'aave')
+      ),
+    ]);
+  }
+
+  /**
+   * Profit-maximizing flash amount: closed form when every hop is a single constant-product
+   * pool, otherwise a numeric search over the quoted profit
+   */
+  private getOptimalInput(
+    hops: Edge[][],
+    flashloanProvider: FlashloanProvider,
+    profitAt: (amountIn: bigint) => bigint | null
+  ): bigint {
+    const maxInput = this.getMaxInput(hops, flashloanProvider);
+
+    const cycle = hops.map(legs => legs[0]).filter((edge): edge is Edge => edge !== undefined);
+    if (hops.every(legs => legs.length === 1) && cycle.every(isConstantProduct)) {
+      const constantProductHops = cycle.map(edge => ({ reserveIn: edge.reserve0, reserveOut: edge.reserve1, feeBps: edge.fee }));
+      const premiumBps = flashloanProvider === 'aave' ? AAVE_FLASHLOAN_PREMIUM_BPS : 0n;
+      const optimal = getOptimalConstantProductInput(constantProductHops, premiumBps);
+      return optimal < maxInput ? optimal : maxInput;
+    }
+
+    const { amountIn, profit } = maximizeProfit(profitAt, maxInput);
+    return profit > 0n ? amountIn : 0n;
+  }
+
+  /**
+   * Largest useful flash amount: the first hop's input-side reserves, and for Balancer
+   * flashloans the Vault's balance of the token (when known)
+   */
+  private getMaxInput(hops: Edge[][], flashloanProvider: FlashloanProvider): bigint {
+    const first = hops[0];
+    if (!first?.[0]) return 0n;
+
+    const reserves = first.reduce((sum, edge) => sum + edge.reserve0, 0n);
+    const vaultBalance = flashloanProvider === 'balancer' ? this.flashLiquidity.get(first[0].from.toLowerCase()) : undefined;
+    return vaultBalance !== undefined && vaultBalance < reserves ? vaultBalance : reserves;
+  }
+
+  /**
+   * Profit at multiples of the chosen size (within the flash amount cap), for inspection
+   */
+  private getSizeCurve(
+    inputAmount: bigint,
+    maxInput: bigint,
+    profitAt: (amountIn: bigint) => bigint | null
+  ): SizePoint[] {
+    const sizes = new Set(SIZE_CURVE_MULTIPLES.map(([num, den]) => (inputAmount * num) / den));
+    return Array.from(sizes).flatMap(amountIn => {
+      if (amountIn <= 0n || amountIn > maxInput) return [];
+      const profit = profitAt(amountIn);
+      return profit === null ? [] : [{ amountIn, profit }];
+    });
+  }
+
   /**
    * Calculate confidence score for an opportunity
    */
@@ -326,8 +434,7 @@ export class ArbitrageDetector {
 
     // Reduce confidence for low liquidity pools
     for (const edge of cycle) {
-      const minReserve = edge.reserve0 < edge.reserve1 ? edge.reserve0 : edge.reserve1;
-      if (minReserve < 10n ** 18n) { // Less than 1 ETH equivalent
+      if (this.getLiquidityUsd(edge) < MIN_LIQUIDITY_USD) {
         confidence *= 0.8;
       }
     }
@@ -335,18 +442,34 @@ export class ArbitrageDetector {
     return Math.max(0, Math.min(1, confidence));
   }
 
+  /**
+   * USD value of the shallower side of a hop
+   */
+  private getLiquidityUsd(edge: Edge): number {
+    return Math.min(this.getValueUsd(edge.from, edge.reserve0), this.getValueUsd(edge.to, edge.reserve1));
+  }
+
+  /**
+   * USD value of a raw token amount, counting unpriced tokens as one USD per whole token
+   */
+  private getValueUsd(token: Address, amount: bigint): number {
+    return this.tokens.toUsd(token, amount) ?? Number(amount) / 10 ** this.tokens.getDecimals(token);
+  }
+
   /**
    * Clear the graph
    */
   clear(): void {
     this.graph.vertices.clear();
     this.graph.edges.clear();
+    this.cycleIndex.clear();
+    this.changedPools.clear();
   }
 
   /**
    * Get graph statistics
    */
-  getStats(): { vertices: number; edges: number } {
+  getStats(): { vertices: number; edges: number; cycles: number } {
     let edgeCount = 0;
     for (const edges of this.graph.edges.values()) {
       edgeCount += edges.length;
@@ -354,6 +477,89 @@ export class ArbitrageDetector {
     return {
       vertices: this.graph.vertices.size,
       edges: edgeCount,
+      cycles: this.cycleIndex.size,
     };
   }
 }
+
+/**
+ * Whether a hop is an x·y = k pool with the fee taken from the input
+ */
+function isConstantProduct(edge: Edge): boolean {
+  return edge.dexType === DexType.UniswapV2 ||
+    edge.dexType === DexType.CamelotV2 ||
+    (edge.dexType === DexType.Velodrome && edge.stable === false);
+}
+
+/**
+ * Swap an amount through every hop of a route, splitting each hop across its pools
+ * Returns the output and each pool's share, or null if a hop cannot be quoted
+ */
+function quoteRoute(
+  hops: Edge[][],
+  amountIn: bigint
+): { amountOut: bigint; legs: { edge: Edge; amountIn: bigint; amountOut: bigint }[][] } | null {
+  const legs: { edge: Edge; amountIn: bigint; amountOut: bigint }[][] = [];
+  let amount = amountIn;
+
+  for (const edges of hops) {
+    const split = splitAmount(edges.map(edge => (x: bigint) => getDexAdapter(edge.dexType).quote(edge, x)), amount, SPLIT_CHUNKS);
+    if (!split) return null;
+
+    const used = split.flatMap((share, i) => {
+      const edge = edges[i];
+      return edge && share.amountIn > 0n ? [{ edge, ...share }] : [];
+    });
+    amount = used.reduce((sum, leg) => sum + leg.amountOut, 0n);
+    if (amount <= 0n) return null;
+    legs.push(used);
+  }
+
+  return { amountOut: amount, legs };
+}
+
+/**
+ * Most profitable opportunity per token route
+ * Cycles that differ only in which of a hop's parallel pools they found are split across
+ * the same pools, so they describe the same trade
+ */
+function bestPerRoute(opportunities: ArbitrageOpportunity[]): ArbitrageOpportunity[] {
+  const best = new Map<string, ArbitrageOpportunity>();
+  for (const opportunity of opportunities) {
+    const tokens = opportunity.path.map(step => step.tokenIn.toLowerCase());
+    const key = tokens.filter((token, i) => token !== tokens[i - 1]).join();
+    const current = best.get(key);
+    if (!current || opportunity.expectedProfit > current.expectedProfit) best.set(key, opportunity);
+  }
+  return Array.from(best.values());
+}
+
+/**
+ * Whether a cycle's edge weights sum below zero, i.e. its rate at probe size beats 1
+ */
+function isNegative(cycle: Edge[]): boolean {
+  return cycle.reduce((sum, edge) => sum + edge.weight, 0) < 0;
+}
+
+/**
+ * Rotate a closed cycle to start at the first base token (in preference order) it passes through
+ * Returns null for open paths and cycles that touch no base token
+ */
+function rotateToBaseToken(cycle: Edge[], baseTokens: Address[]): Edge[] | null {
+  const first = cycle[0];
+  const last = cycle[cycle.length - 1];
+  if (!first || !last || !sameToken(last.to, first.from)) return null;
+
+  for (const token of baseTokens) {
+    const start = cycle.findIndex(edge => sameToken(edge.from, token));
+    if (start !== -1) return [...cycle.slice(start), ...cycle.slice(0, start)];
+  }
+  return null;
+}
+
+/**
+ * Case-insensitive address comparison
+ */
+function sameToken(a: Address, b: Address): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
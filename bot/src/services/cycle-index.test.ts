@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'viem';
+import { CycleIndex, getCycleKey, type CycleHop } from './cycle-index.js';
+
+const address = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+const [A, B, C, D] = [address(1), address(2), address(3), address(4)];
+const [P1, P2, P3, P4] = [address(101), address(102), address(103), address(104)];
+
+// Both directions of a pool
+const pool = (pool: Address, token0: Address, token1: Address): CycleHop[] => [
+  { from: token0, to: token1, pool },
+  { from: token1, to: token0, pool },
+];
+
+// Every indexed cycle, once per pool it goes through
+const indexedCycles = (index: CycleIndex): CycleHop[][] => [P1, P2, P3, P4].flatMap(p => index.getCycles(p));
+
+const build = (maxHops: number, pools: CycleHop[][]): CycleIndex => {
+  const index = new CycleIndex(maxHops);
+  for (const hop of pools.flat()) index.addHop(hop);
+  return index;
+};
+
+describe('CycleIndex', () => {
+  it('indexes two-hop cycles between parallel pools', () => {
+    const index = build(2, [pool(P1, A, B), pool(P2, A, B)]);
+    // A->B->A and B->A->B through both pools are the same two cycles in each rotation
+    expect(index.size).toBe(2);
+    expect(index.getCycles(P1)).toHaveLength(2);
+  });
+
+  it('indexes triangles in both directions up to the hop limit', () => {
+    const pools = [pool(P1, A, B), pool(P2, B, C), pool(P3, C, A)];
+    expect(build(2, pools).size).toBe(0);
+    expect(build(3, pools).size).toBe(2);
+    expect(build(3, pools).getCycles(P2)).toHaveLength(2);
+  });
+
+  it('does not reuse a pool or token within a cycle', () => {
+    const index = build(4, [pool(P1, A, B), pool(P2, B, C), pool(P3, C, A), pool(P4, C, D)]);
+    for (const cycle of indexedCycles(index)) {
+      const pools = cycle.map(hop => hop.pool);
+      const tokens = cycle.map(hop => hop.from);
+      expect(new Set(pools).size).toBe(pools.length);
+      expect(new Set(tokens).size).toBe(tokens.length);
+    }
+    // D only connects through P4, so no cycle reaches it
+    expect(index.getCycles(P4)).toEqual([]);
+  });
+
+  it('drops every cycle through a removed pool', () => {
+    const index = build(3, [pool(P1, A, B), pool(P2, B, C), pool(P3, C, A), pool(P4, A, B)]);
+    const before = index.size;
+    index.removePool(P2);
+    expect(index.size).toBeLessThan(before);
+    expect(index.getCycles(P2)).toEqual([]);
+    for (const cycle of indexedCycles(index)) {
+      expect(cycle.some(hop => hop.pool === P2)).toBe(false);
+    }
+    // Re-adding the pool brings its cycles back
+    for (const hop of pool(P2, B, C)) index.addHop(hop);
+    expect(index.size).toBe(before);
+  });
+});
+
+describe('getCycleKey', () => {
+  it('is the same for every rotation of a cycle', () => {
+    const cycle: CycleHop[] = [
+      { from: A, to: B, pool: P1 },
+      { from: B, to: C, pool: P2 },
+      { from: C, to: A, pool: P3 },
+    ];
+    const rotated = [cycle[1], cycle[2], cycle[0]].filter((hop): hop is CycleHop => hop !== undefined);
+    expect(getCycleKey(rotated)).toBe(getCycleKey(cycle));
+    expect(getCycleKey([...cycle].reverse())).not.toBe(getCycleKey(cycle));
+  });
+});
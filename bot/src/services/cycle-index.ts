@@ -0,0 +1,156 @@
+import type { Address } from 'viem';
+import type { Edge } from '../types/index.js';
+
+// Longest cycle kept in the index, unless the chain sets its own
+const MAX_CYCLE_HOPS = Number(process.env.MAX_CYCLE_HOPS) || 3;
+
+/**
+ * One directed swap through a pool; resolved to the pool's current edge when evaluated
+ */
+export type CycleHop = Pick<Edge, 'from' | 'to' | 'pool'>;
+
+/**
+ * Index of every simple cycle of up to MAX_CYCLE_HOPS hops in the token graph, by pool
+ * A pool's state change can only flip the profitability of cycles through that pool, so
+ * incremental detection re-evaluates just those instead of searching the whole graph
+ */
+export class CycleIndex {
+  private maxHops: number;
+  private hops: Map<string, Map<string, Map<string, CycleHop>>> = new Map(); // from -> to -> hop key -> hop
+  private cycles: Map<string, CycleHop[]> = new Map(); // cycle key -> hops
+  private byPool: Map<string, Set<string>> = new Map(); // pool -> cycle keys
+
+  constructor(maxHops: number = MAX_CYCLE_HOPS) {
+    this.maxHops = maxHops;
+  }
+
+  /**
+   * Register a hop, indexing the cycles it closes the first time it is seen
+   */
+  addHop(hop: CycleHop): void {
+    const from = hop.from.toLowerCase();
+    const to = hop.to.toLowerCase();
+    const key = getHopKey(hop);
+    const outgoing = this.hops.get(from) || new Map<string, Map<string, CycleHop>>();
+    const pair = outgoing.get(to) || new Map<string, CycleHop>();
+    if (pair.has(key)) return;
+
+    const stored = { from: hop.from, to: hop.to, pool: hop.pool };
+    pair.set(key, stored);
+    outgoing.set(to, pair);
+    this.hops.set(from, outgoing);
+
+    for (const cycle of this.findCyclesThrough(stored)) {
+      const cycleKey = getCycleKey(cycle);
+      if (this.cycles.has(cycleKey)) continue;
+      this.cycles.set(cycleKey, cycle);
+      for (const { pool } of cycle) {
+        const pools = this.byPool.get(pool.toLowerCase()) || new Set<string>();
+        pools.add(cycleKey);
+        this.byPool.set(pool.toLowerCase(), pools);
+      }
+    }
+  }
+
+  /**
+   * Drop a pool's hops and every cycle through it
+   */
+  removePool(pool: Address): void {
+    const key = pool.toLowerCase();
+    for (const outgoing of this.hops.values()) {
+      for (const pair of outgoing.values()) {
+        for (const [hopKey, hop] of pair) {
+          if (hop.pool.toLowerCase() === key) pair.delete(hopKey);
+        }
+      }
+    }
+
+    for (const cycleKey of this.byPool.get(key) || []) {
+      for (const { pool: other } of this.cycles.get(cycleKey) || []) {
+        this.byPool.get(other.toLowerCase())?.delete(cycleKey);
+      }
+      this.cycles.delete(cycleKey);
+    }
+    this.byPool.delete(key);
+  }
+
+  /**
+   * Cycles that swap through a pool
+   */
+  getCycles(pool: Address): CycleHop[][] {
+    return Array.from(this.byPool.get(pool.toLowerCase()) || [], key => this.cycles.get(key) ?? []);
+  }
+
+  /**
+   * Every indexed cycle, each listed once whatever hop it starts from
+   */
+  getAllCycles(): IterableIterator<CycleHop[]> {
+    return this.cycles.values();
+  }
+
+  clear(): void {
+    this.hops.clear();
+    this.cycles.clear();
+    this.byPool.clear();
+  }
+
+  get size(): number {
+    return this.cycles.size;
+  }
+
+  /**
+   * Simple cycles that start with a hop: paths back from its output token to its input
+   * token, through distinct tokens and pools
+   * Closing hops are looked up by token pair, so hub tokens with thousands of pools are
+   * not scanned on the last hop
+   */
+  private findCyclesThrough(first: CycleHop): CycleHop[][] {
+    const cycles: CycleHop[][] = [];
+    const target = first.from.toLowerCase();
+    const tokens = new Set([target, first.to.toLowerCase()]);
+    const pools = new Set([first.pool.toLowerCase()]);
+
+    const dfs = (current: string, path: CycleHop[]) => {
+      const outgoing = this.hops.get(current);
+      if (!outgoing) return;
+
+      for (const hop of outgoing.get(target)?.values() || []) {
+        if (!pools.has(hop.pool.toLowerCase())) cycles.push([...path, hop]);
+      }
+      if (path.length + 1 >= this.maxHops) return;
+
+      for (const [to, pair] of outgoing) {
+        if (tokens.has(to)) continue;
+        tokens.add(to);
+        for (const hop of pair.values()) {
+          const pool = hop.pool.toLowerCase();
+          if (pools.has(pool)) continue;
+          pools.add(pool);
+          dfs(to, [...path, hop]);
+          pools.delete(pool);
+        }
+        tokens.delete(to);
+      }
+    };
+
+    dfs(first.to.toLowerCase(), [first]);
+    return cycles;
+  }
+}
+
+/**
+ * Key shared by every rotation of a cycle: its hops, read from the smallest one
+ */
+export function getCycleKey(cycle: CycleHop[]): string {
+  const hops = cycle.map(getHopKey);
+  let best = hops;
+  for (let i = 1; i < hops.length; i++) {
+    const rotation = [...hops.slice(i), ...hops.slice(0, i)];
+    if (rotation.join() < best.join()) best = rotation;
+  }
+  return best.join();
+}
+
+function getHopKey(hop: CycleHop): string {
+  return `${hop.from}-${hop.to}-${hop.pool}`.toLowerCase();
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { Worker } from 'worker_threads';
+import type { Address } from 'viem';
+import { DetectorThread } from './detector-thread.js';
+import { DexType, type ArbitrageOpportunity, type ChainTokenConfig, type Edge } from '../types/index.js';
+
+const address = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+const [A, B] = [address(1), address(2)];
+const [P1, P2, P3] = [address(101), address(102), address(103)];
+const E18 = 10n ** 18n;
+
+const tokens: ChainTokenConfig = {
+  chainId: 42161,
+  tokens: [
+    { address: A, symbol: 'A', name: 'A', decimals: 18 },
+    { address: B, symbol: 'B', name: 'B', decimals: 18 },
+  ],
+  pairs: [],
+  baseTokens: [A],
+};
+
+// One direction of a constant-product pool
+const edge = (pool: Address, from: Address, to: Address, reserveIn: bigint, reserveOut: bigint): Edge => ({
+  from,
+  to,
+  pool,
+  dex: 'Test',
+  dexType: DexType.UniswapV2,
+  router: pool,
+  weight: -Math.log((Number(reserveOut) / Number(reserveIn)) * 0.997),
+  reserve0: reserveIn,
+  reserve1: reserveOut,
+  fee: 30,
+  fromDecimals: 18,
+  toDecimals: 18,
+});
+
+// B is priced 2:1 in one pool and 1.5:1 in the other: buying in P1 and selling in P2 pays
+const edges = [
+  edge(P1, A, B, 1000n * E18, 2000n * E18),
+  edge(P1, B, A, 2000n * E18, 1000n * E18),
+  edge(P2, A, B, 1000n * E18, 1500n * E18),
+  edge(P2, B, A, 1500n * E18, 1000n * E18),
+];
+
+const workerOf = (thread: DetectorThread): Worker => (thread as unknown as { worker: Worker }).worker;
+
+const nextOpportunities = (thread: DetectorThread): Promise<ArbitrageOpportunity[]> =>
+  new Promise(resolve => thread.onOpportunities(resolve));
+
+describe('DetectorThread', () => {
+  let thread: DetectorThread | undefined;
+
+  afterEach(async () => {
+    await thread?.terminate();
+    thread = undefined;
+  });
+
+  it('replaces a crashed worker and replays its graph', { timeout: 30_000 }, async () => {
+    thread = new DetectorThread(42161, tokens, 50);
+    thread.addEdges(edges);
+
+    // Fail the worker, as an uncaught exception would, while it still has a search to answer
+    thread.detect([A], 1n);
+    const crashed = workerOf(thread);
+    crashed.emit('error', new Error('Worker crashed'));
+    await vi.waitFor(() => expect(workerOf(thread as DetectorThread)).not.toBe(crashed), { timeout: 5000 });
+
+    // The lost search no longer holds the thread: the next one runs on the new worker
+    const found = nextOpportunities(thread);
+    thread.detect([A], 2n);
+    const opportunities = await found;
+
+    expect(opportunities).toHaveLength(1);
+    expect(opportunities[0]?.blockNumber).toBe(2n);
+    expect(opportunities[0]?.path.map(step => step.pool)).toEqual([P1, P2]);
+  });
+
+  it('replays pool removals made before the crash', { timeout: 30_000 }, async () => {
+    thread = new DetectorThread(42161, tokens, 50);
+    // P3 trades at par, so it would close a more profitable cycle with P1 than P2 does
+    thread.addEdges([...edges, edge(P3, A, B, 1000n * E18, 1000n * E18), edge(P3, B, A, 1000n * E18, 1000n * E18)]);
+    thread.removePool(P3);
+    const first = nextOpportunities(thread);
+    thread.detect([A], 3n);
+    await first;
+
+    // Once it has answered, the worker is running and ends with a non-zero exit code
+    const crashed = workerOf(thread);
+    expect(await crashed.terminate()).toBe(1);
+    await vi.waitFor(() => expect(workerOf(thread as DetectorThread)).not.toBe(crashed), { timeout: 5000 });
+
+    const found = nextOpportunities(thread);
+    thread.detect([A], 4n);
+    const opportunities = await found;
+
+    expect(opportunities.length).toBeGreaterThan(0);
+    for (const opportunity of opportunities) {
+      expect(opportunity.path.map(step => step.pool)).not.toContain(P3);
+    }
+  });
+});
@@ -0,0 +1,211 @@
+import { Worker } from 'worker_threads';
+import { extname } from 'path';
+import { createRequire } from 'module';
+import { fileURLToPath, pathToFileURL } from 'url';
+import type { Address } from 'viem';
+import type { ArbitrageOpportunity, ChainId, ChainTokenConfig, Edge } from '../types/index.js';
+import type { TokenSnapshot } from './token-registry.js';
+import type { GasModelSnapshot } from './gas-model.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'detector-thread' });
+
+// Worker entry, next to this module: .ts when running the sources under tsx, .js once built
+const WORKER_EXTENSION = extname(fileURLToPath(import.meta.url));
+const WORKER_URL = new URL(`./detector-worker${WORKER_EXTENSION}`, import.meta.url);
+
+// Wait before replacing a failed worker, so one that cannot start does not respawn in a loop
+const RESTART_DELAY_MS = Number(process.env.DETECTOR_RESTART_DELAY_MS) || 1000;
+
+export interface DetectorWorkerData {
+  chainId: ChainId;
+  tokens: ChainTokenConfig;
+  maxProfitShortfallBps: number;
+  minProfitBps?: number;
+}
+
+// Messages are copied with the structured clone algorithm, which keeps bigints, Maps and
+// Sets intact (unlike JSON), so edges and opportunities cross threads unchanged
+export type DetectorRequest =
+  | { type: 'edges'; edges: Edge[] }
+  | { type: 'removePool'; pool: Address }
+  | { type: 'flashLiquidity'; token: Address; amount: bigint }
+  | { type: 'tokens'; snapshot: TokenSnapshot }
+  | { type: 'gasModel'; snapshot: GasModelSnapshot }
+  | { type: 'detect'; baseTokens: Address[]; blockNumber: bigint; changedOnly: boolean };
+
+export type DetectorResponse =
+  | { type: 'opportunities'; opportunities: ArbitrageOpportunity[] }
+  | { type: 'error'; message: string };
+
+type DetectRequest = Extract<DetectorRequest, { type: 'detect' }>;
+
+/**
+ * One chain's ArbitrageDetector running on its own worker thread, so a long search on one
+ * chain cannot stall log ingestion or execution on another
+ * Graph updates are posted as they happen; detection requests made while a search is
+ * running are merged into a single follow-up search
+ * The thread keeps a copy of what it posted, so a worker that crashes is replaced by a new
+ * one holding the same graph, token and gas state
+ */
+export class DetectorThread {
+  private worker: Worker;
+  private workerData: DetectorWorkerData;
+  private running = false;
+  private terminated = false;
+  private restarting?: NodeJS.Timeout; // Pending replacement of a failed worker
+  private queued?: DetectRequest;
+  private edges: Map<string, Map<string, Edge>> = new Map(); // Current edges per pool, by direction
+  private flashLiquidity: Map<Address, bigint> = new Map();
+  private tokens?: TokenSnapshot;
+  private gasModel?: GasModelSnapshot;
+  private onOpportunitiesCallback?: (opportunities: ArbitrageOpportunity[]) => void;
+
+  constructor(chainId: ChainId, tokens: ChainTokenConfig, maxProfitShortfallBps: number, minProfitBps?: number) {
+    this.workerData = { chainId, tokens, maxProfitShortfallBps, minProfitBps };
+    this.worker = this.spawn();
+  }
+
+  /**
+   * Add or update edges in the worker's graph
+   */
+  addEdges(edges: Edge[]): void {
+    if (edges.length === 0) return;
+    for (const edge of edges) {
+      const key = edge.pool.toLowerCase();
+      const pool = this.edges.get(key) ?? new Map<string, Edge>();
+      pool.set(`${edge.from}-${edge.to}`, edge);
+      this.edges.set(key, pool);
+    }
+    this.post({ type: 'edges', edges });
+  }
+
+  removePool(pool: Address): void {
+    this.edges.delete(pool.toLowerCase());
+    this.post({ type: 'removePool', pool });
+  }
+
+  setFlashLiquidity(token: Address, amount: bigint): void {
+    this.flashLiquidity.set(token, amount);
+    this.post({ type: 'flashLiquidity', token, amount });
+  }
+
+  /**
+   * Hand the worker the latest token decimals and prices
+   */
+  setTokens(snapshot: TokenSnapshot): void {
+    this.tokens = snapshot;
+    this.post({ type: 'tokens', snapshot });
+  }
+
+  /**
+   * Hand the worker the latest calibrated gas model
+   */
+  setGasModel(snapshot: GasModelSnapshot): void {
+    this.gasModel = snapshot;
+    this.post({ type: 'gasModel', snapshot });
+  }
+
+  /**
+   * Search for opportunities; results arrive through onOpportunities
+   * A full search requested while another is running wins over an incremental one
+   */
+  detect(baseTokens: Address[], blockNumber: bigint, changedOnly = false): void {
+    const request: DetectRequest = { type: 'detect', baseTokens, blockNumber, changedOnly };
+    if (!this.running) {
+      this.running = true;
+      this.post(request);
+      return;
+    }
+    this.queued = { ...request, changedOnly: changedOnly && (this.queued?.changedOnly ?? true) };
+  }
+
+  onOpportunities(callback: typeof this.onOpportunitiesCallback): void {
+    this.onOpportunitiesCallback = callback;
+  }
+
+  async terminate(): Promise<void> {
+    this.terminated = true;
+    clearTimeout(this.restarting);
+    await this.worker.terminate();
+  }
+
+  private post(request: DetectorRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  /**
+   * Start a worker and hand it the current graph, flash liquidity, tokens and gas model
+   */
+  private spawn(): Worker {
+    const { chainId } = this.workerData;
+    const worker = startWorker(this.workerData);
+
+    worker.on('message', (response: DetectorResponse) => this.handleResponse(response));
+    worker.on('error', (error) => {
+      logger.error({ chainId, error }, 'Detector worker failed');
+      this.respawn(worker);
+    });
+    worker.on('exit', (code) => {
+      if (code === 0 || this.terminated) return;
+      logger.error({ chainId, code }, 'Detector worker exited');
+      this.respawn(worker);
+    });
+
+    const post = (request: DetectorRequest) => worker.postMessage(request);
+    const edges = Array.from(this.edges.values(), pool => Array.from(pool.values())).flat();
+    if (edges.length > 0) post({ type: 'edges', edges });
+    for (const [token, amount] of this.flashLiquidity) post({ type: 'flashLiquidity', token, amount });
+    if (this.tokens) post({ type: 'tokens', snapshot: this.tokens });
+    if (this.gasModel) post({ type: 'gasModel', snapshot: this.gasModel });
+    return worker;
+  }
+
+  /**
+   * Replace a failed worker after a delay; the search it was running is lost, and searches
+   * requested meanwhile are merged into one that starts on the new worker
+   * An 'error' is followed by an 'exit', so only the first of them for a worker counts
+   */
+  private respawn(failed: Worker): void {
+    if (failed !== this.worker || this.terminated || this.restarting) return;
+    void failed.terminate();
+    this.running = true;
+    this.restarting = setTimeout(() => {
+      this.restarting = undefined;
+      this.worker = this.spawn();
+      logger.info({ chainId: this.workerData.chainId }, 'Detector worker restarted');
+      this.runQueued();
+    }, RESTART_DELAY_MS);
+  }
+
+  private handleResponse(response: DetectorResponse): void {
+    if (response.type === 'error') {
+      logger.warn({ chainId: this.workerData.chainId, error: response.message }, 'Detection failed');
+    } else if (response.opportunities.length > 0) {
+      this.onOpportunitiesCallback?.(response.opportunities);
+    }
+    this.runQueued();
+  }
+
+  private runQueued(): void {
+    const next = this.queued;
+    this.queued = undefined;
+    this.running = next !== undefined;
+    if (next) this.post(next);
+  }
+}
+
+/**
+ * Start a detection worker
+ * tsx's loader hooks do not carry over to worker threads, so a worker started from the
+ * TypeScript sources registers them itself before importing its entry
+ */
+function startWorker(workerData: DetectorWorkerData): Worker {
+  if (WORKER_EXTENSION !== '.ts') return new Worker(WORKER_URL, { workerData });
+
+  // Evaluated code resolves bare specifiers from the working directory, so tsx is located
+  // from this module instead
+  const tsxApi = pathToFileURL(createRequire(import.meta.url).resolve('tsx/esm/api')).href;
+  const bootstrap = `import(${JSON.stringify(tsxApi)}).then(({ register }) => { register(); return import(${JSON.stringify(WORKER_URL.href)}); });`;
+  return new Worker(bootstrap, { eval: true, workerData });
+}
@@ -0,0 +1,55 @@
+// Worker thread entry: owns one chain's ArbitrageDetector (see DetectorThread)
+import { parentPort, workerData } from 'worker_threads';
+import { ArbitrageDetector } from './arbitrage-detector.js';
+import { TokenRegistry } from './token-registry.js';
+import { GasModel } from './gas-model.js';
+import type { DetectorRequest, DetectorResponse, DetectorWorkerData } from './detector-thread.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'detector-worker' });
+
+const { chainId, tokens: tokenConfig, maxProfitShortfallBps, minProfitBps } = workerData as DetectorWorkerData;
+const tokens = new TokenRegistry(tokenConfig);
+const gasModel = new GasModel();
+const detector = new ArbitrageDetector(chainId, tokens, maxProfitShortfallBps, minProfitBps, gasModel);
+
+const reply = (response: DetectorResponse) => parentPort?.postMessage(response);
+
+// A request that throws is logged rather than left to end the thread; only a failed search
+// is answered, as the DetectorThread takes any reply as the end of the running search
+parentPort?.on('message', (request: DetectorRequest) => {
+  try {
+    handle(request);
+  } catch (error) {
+    if (request.type === 'detect') reply({ type: 'error', message: (error as Error).message });
+    else logger.error({ chainId, request: request.type, error }, 'Detector update failed');
+  }
+});
+
+function handle(request: DetectorRequest): void {
+  switch (request.type) {
+    case 'edges':
+      for (const edge of request.edges) detector.addEdge(edge);
+      break;
+    case 'removePool':
+      detector.removePool(request.pool);
+      break;
+    case 'flashLiquidity':
+      detector.setFlashLiquidity(request.token, request.amount);
+      break;
+    case 'tokens':
+      tokens.restore(request.snapshot);
+      break;
+    case 'gasModel':
+      gasModel.restore(request.snapshot);
+      break;
+    case 'detect': {
+      const { baseTokens, blockNumber, changedOnly } = request;
+      const opportunities = changedOnly
+        ? detector.findChangedOpportunities(baseTokens, blockNumber)
+        : detector.findArbitrageOpportunities(baseTokens, blockNumber);
+      reply({ type: 'opportunities', opportunities });
+      break;
+    }
+  }
+}
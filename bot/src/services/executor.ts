@@ -12,6 +12,7 @@ import {
 } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { mainnet, arbitrum, base, optimism } from 'viem/chains';
+import { estimateL1Fee } from 'viem/op-stack';
 import type {
   ArbitrageOpportunity,
   ChainId,
@@ -19,15 +20,23 @@ import type {
   SimulationResult,
   BotConfig,
 } from '../types/index.js';
-import { CHAIN_CONFIGS } from '../config/chains.js';
+import { CHAIN_CONFIGS, getArbitrageContract } from '../config/chains.js';
+import { toContractSwaps } from '../utils/swap-steps.js';
+import type { GasModel } from './gas-model.js';
 import pino from 'pino';
 
 const logger = pino({ name: 'executor' });
 
 const ARBITRAGE_ABI = parseAbi([
-  'struct SwapStep { address router; address tokenIn; address tokenOut; uint256 amountIn; bytes data; uint8 dexType; }',
+  'struct SwapStep { address router; address tokenIn; address tokenOut; uint256 amountIn; uint256 amountOutMin; bytes data; uint8 dexType; }',
   'struct ArbitrageParams { address flashToken; uint256 flashAmount; SwapStep[] swaps; uint256 minProfit; }',
-  'function executeArbitrage((address flashToken, uint256 flashAmount, (address router, address tokenIn, address tokenOut, uint256 amountIn, bytes data, uint8 dexType)[] swaps, uint256 minProfit) params)',
+  'function executeArbitrage((address flashToken, uint256 flashAmount, (address router, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOutMin, bytes data, uint8 dexType)[] swaps, uint256 minProfit) params)',
+]);
+
+// Arbitrum precompile for gas estimates, including the L2 gas charged for a transaction's L1 data
+const NODE_INTERFACE: Address = '0x00000000000000000000000000000000000000C8';
+const NODE_INTERFACE_ABI = parseAbi([
+  'function gasEstimateL1Component(address to, bool contractCreation, bytes data) view returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)',
 ]);
 
 const chainMap = {
@@ -49,9 +58,11 @@ export class TradeExecutor {
   private publicClients: Map<ChainId, PublicClient> = new Map();
   private config: BotConfig;
   private account: ReturnType<typeof privateKeyToAccount>;
+  private gasModel: GasModel;
 
-  constructor(config: BotConfig) {
+  constructor(config: BotConfig, gasModel: GasModel) {
     this.config = config;
+    this.gasModel = gasModel;
     this.account = privateKeyToAccount(config.privateKey);
 
     for (const chainId of config.enabledChains) {
@@ -99,21 +110,28 @@ export class TradeExecutor {
 
     try {
       const calldata = this.encodeArbitrageCall(opportunity);
+      const contract = getArbitrageContract(chainConfig, opportunity.flashloanProvider);
 
       const result = await publicClient.simulateContract({
-        address: chainConfig.contracts.arbitrage,
+        address: contract,
         abi: ARBITRAGE_ABI,
         functionName: 'executeArbitrage',
         args: [this.buildArbitrageParams(opportunity)],
         account: this.account.address,
       });
 
-      // Estimate gas
+      // Estimate gas; eth_estimateGas returns the least gas limit that succeeds, which runs
+      // above the gas used (63/64 rule, refunds), so the gas model calibrates against the gas
+      // the simulated execution used instead
       const gasEstimate = await publicClient.estimateGas({
-        to: chainConfig.contracts.arbitrage,
+        to: contract,
         data: calldata,
         account: this.account.address,
       });
+      const gasUsed = await this.getSimulatedGasUsed(publicClient, contract, calldata);
+      if (gasUsed !== null) {
+        this.gasModel.record(opportunity.chain, opportunity.flashloanProvider, opportunity.path, gasUsed, 'simulation');
+      }
 
       return {
         success: true,
@@ -196,6 +214,12 @@ export class TradeExecutor {
       });
 
       const success = receipt.status === 'success';
+      // A reverted trade stops partway, so only successful receipts calibrate the gas model
+      // Arbitrum's gasUsed includes the gas charged for L1 data, which getL1Fee covers
+      if (success) {
+        const gasUsedForL1 = BigInt((receipt as { gasUsedForL1?: Hex }).gasUsedForL1 ?? 0);
+        this.gasModel.record(opportunity.chain, opportunity.flashloanProvider, opportunity.path, receipt.gasUsed - gasUsedForL1, 'receipt');
+      }
       
       logger.info({
         opportunity: opportunity.id,
@@ -235,6 +259,7 @@ export class TradeExecutor {
     chainConfig: typeof CHAIN_CONFIGS[1]
   ): Promise<Hash> {
     const calldata = this.encodeArbitrageCall(opportunity);
+    const contract = getArbitrageContract(chainConfig, opportunity.flashloanProvider);
     
     // Get nonce
     const nonce = await publicClient.getTransactionCount({
@@ -243,7 +268,7 @@ export class TradeExecutor {
 
     // Get gas estimate with buffer
     const gasEstimate = await publicClient.estimateGas({
-      to: chainConfig.contracts.arbitrage,
+      to: contract,
       data: calldata,
       account: this.account.address,
     });
@@ -255,7 +280,7 @@ export class TradeExecutor {
 
     // Send transaction
     const txHash = await walletClient.sendTransaction({
-      to: chainConfig.contracts.arbitrage,
+      to: contract,
       data: calldata,
       gas: gasLimit,
       maxFeePerGas: gasPrice + priorityFee,
@@ -278,6 +303,7 @@ export class TradeExecutor {
     if (!chainConfig) throw new Error('No mainnet config');
 
     const calldata = this.encodeArbitrageCall(opportunity);
+    const contract = getArbitrageContract(chainConfig, opportunity.flashloanProvider);
     
     // Get current block
     const blockNumber = await publicClient.getBlockNumber();
@@ -285,7 +311,7 @@ export class TradeExecutor {
 
     // Get gas estimate
     const gasEstimate = await publicClient.estimateGas({
-      to: chainConfig.contracts.arbitrage,
+      to: contract,
       data: calldata,
       account: this.account.address,
     });
@@ -301,7 +327,7 @@ export class TradeExecutor {
     // For Flashbots, we use the Flashbots RPC which handles bundle submission
     // The transaction is sent directly - Flashbots Protect RPC handles the MEV protection
     const txHash = await walletClient.sendTransaction({
-      to: chainConfig.contracts.arbitrage,
+      to: contract,
       data: calldata,
       gas: (gasEstimate * 120n) / 100n,
       maxFeePerGas: gasPrice * 2n, // Higher fee for priority
@@ -328,6 +354,21 @@ export class TradeExecutor {
     return fees[chainId] || 1n * 10n ** 9n;
   }
 
+  /**
+   * Gas used by a call executed in a simulated block (eth_simulateV1), or null if it reverts
+   * or the node does not support simulation
+   */
+  private async getSimulatedGasUsed(client: PublicClient, to: Address, data: Hex): Promise<bigint | null> {
+    try {
+      const { results } = await client.simulateCalls({ account: this.account.address, calls: [{ to, data }] });
+      const [result] = results;
+      return result?.status === 'success' ? result.gasUsed : null;
+    } catch (error) {
+      logger.debug({ error }, 'Simulated execution failed, not calibrating');
+      return null;
+    }
+  }
+
   /**
    * Encode arbitrage call data
    */
@@ -346,15 +387,8 @@ export class TradeExecutor {
     return {
       flashToken: opportunity.inputToken,
       flashAmount: opportunity.inputAmount,
-      swaps: opportunity.path.map(step => ({
-        router: step.router,
-        tokenIn: step.tokenIn,
-        tokenOut: step.tokenOut,
-        amountIn: step.amountIn,
-        data: step.data,
-        dexType: step.dexType,
-      })),
-      minProfit: (opportunity.expectedProfit * BigInt(100 - this.config.maxSlippageBps)) / 100n,
+      swaps: toContractSwaps(opportunity.path),
+      minProfit: opportunity.minProfit,
     };
   }
 
@@ -365,6 +399,41 @@ export class TradeExecutor {
     return this.account.address;
   }
 
+  /**
+   * Gas price a trade sent now would pay: the chain's current gas price plus our priority fee
+   */
+  async getGasPrice(chainId: ChainId): Promise<bigint | null> {
+    const client = this.publicClients.get(chainId);
+    if (!client) return null;
+
+    return (await client.getGasPrice()) + this.getPriorityFee(chainId);
+  }
+
+  /**
+   * L1 data fee (wei) a rollup charges for a trade on top of its L2 gas; 0 on other chains
+   */
+  async getL1Fee(opportunity: ArbitrageOpportunity): Promise<bigint | null> {
+    const client = this.publicClients.get(opportunity.chain);
+    const chainConfig = CHAIN_CONFIGS[opportunity.chain];
+    if (!client || !chainConfig) return null;
+    if (!chainConfig.l1DataFee) return 0n;
+
+    const to = getArbitrageContract(chainConfig, opportunity.flashloanProvider);
+    const data = this.encodeArbitrageCall(opportunity);
+    if (chainConfig.l1DataFee === 'opStack') {
+      return estimateL1Fee(client, { account: this.account, chain: client.chain, to, data });
+    }
+
+    // Arbitrum charges L1 data as extra L2 gas at the L2 base fee
+    const [gasEstimateForL1, baseFee] = await client.readContract({
+      address: NODE_INTERFACE,
+      abi: NODE_INTERFACE_ABI,
+      functionName: 'gasEstimateL1Component',
+      args: [to, false, data],
+    });
+    return gasEstimateForL1 * baseFee;
+  }
+
   /**
    * Get balance on chain
    */
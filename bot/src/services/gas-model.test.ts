@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { DexType } from '../types/index.js';
+import { GasModel, getDefaults } from './gas-model.js';
+
+const defaults = getDefaults();
+const v2 = { dexType: DexType.UniswapV2 };
+const v3 = (ticksCrossed: number) => ({ dexType: DexType.UniswapV3, ticksCrossed });
+
+describe('GasModel', () => {
+  it('starts from the defaults: provider overhead, swaps and tick crossings', () => {
+    const model = new GasModel();
+    const expected = defaults.base.aave + defaults.swap[DexType.UniswapV2] + defaults.swap[DexType.UniswapV3] + 2 * defaults.tickCross;
+    expect(model.estimate(42161, 'aave', [v2, v3(2)])).toBe(BigInt(expected));
+  });
+
+  it('moves each parameter a sample involves by its share of the error', () => {
+    const model = new GasModel();
+    const predicted = defaults.base.balancer + defaults.swap[DexType.UniswapV2] + defaults.swap[DexType.UniswapV3] + 3 * defaults.tickCross;
+    const error = 40_000;
+    model.record(42161, 'balancer', [v2, v3(3)], BigInt(predicted + error), 'receipt');
+
+    // Features: provider 1, one V2 swap, one V3 swap, 3 ticks; norm 1 + 1 + 1 + 9
+    const delta = (0.2 * error) / 12;
+    const params = model.getParams().get(42161);
+    expect(params?.base.balancer).toBeCloseTo(defaults.base.balancer + delta, 9);
+    expect(params?.base.aave).toBe(defaults.base.aave);
+    expect(params?.swap[DexType.UniswapV2]).toBeCloseTo(defaults.swap[DexType.UniswapV2] + delta, 9);
+    expect(params?.swap[DexType.UniswapV3]).toBeCloseTo(defaults.swap[DexType.UniswapV3] + delta, 9);
+    expect(params?.swap[DexType.Curve]).toBe(defaults.swap[DexType.Curve]);
+    expect(params?.tickCross).toBeCloseTo(defaults.tickCross + 3 * delta, 9);
+
+    // The prediction moves toward the sample by the learning rate
+    expect(Number(model.estimate(42161, 'balancer', [v2, v3(3)]))).toBeCloseTo(predicted + 0.2 * error, -1);
+    expect(model.estimate(10, 'balancer', [v2])).toBe(BigInt(defaults.base.balancer + defaults.swap[DexType.UniswapV2]));
+  });
+
+  it('tracks a moving average of the prediction error', () => {
+    const model = new GasModel();
+    const predicted = defaults.base.balancer + 2 * defaults.swap[DexType.UniswapV2];
+    model.record(1, 'balancer', [v2, v2], BigInt(predicted * 2), 'receipt');
+    expect(model.getParams().get(1)?.errorPct).toBeCloseTo(50, 9);
+    expect(model.getParams().get(1)?.samples).toBe(1);
+
+    const next = Number(model.estimate(1, 'balancer', [v2, v2]));
+    model.record(1, 'balancer', [v2, v2], BigInt(next), 'simulation');
+    expect(model.getParams().get(1)?.errorPct).toBeCloseTo(45, 3);
+    expect(model.getParams().get(1)?.samples).toBe(2);
+  });
+
+  it('converges on a repeated trade', () => {
+    const model = new GasModel();
+    for (let i = 0; i < 200; i++) model.record(1, 'aave', [v2, v3(1)], 400_000n, 'receipt');
+    expect(Number(model.estimate(1, 'aave', [v2, v3(1)]))).toBeCloseTo(400_000, -1);
+  });
+
+  it('ignores samples without gas or swaps', () => {
+    const model = new GasModel();
+    let calibrated = 0;
+    model.onCalibrated(() => calibrated++);
+    model.record(1, 'balancer', [v2], 0n, 'receipt');
+    model.record(1, 'balancer', [], 300_000n, 'receipt');
+    expect(model.getParams().size).toBe(0);
+    expect(calibrated).toBe(0);
+  });
+});
@@ -0,0 +1,152 @@
+import type { ChainId, FlashloanProvider, SwapStep } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import { getDexAdapter } from '../adapters/index.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'gas-model' });
+
+// Transaction, executor and flashloan overhead before any swap; Aave's flashloan pulls and
+// approves the repayment, Balancer's is a plain transfer
+const DEFAULT_BASE_GAS: Record<FlashloanProvider, number> = {
+  balancer: 150_000,
+  aave: 190_000,
+};
+
+// Extra gas per initialized tick a concentrated liquidity swap crosses
+const DEFAULT_TICK_CROSS_GAS = 20_000;
+
+// Share of a sample's prediction error applied to the parameters it involves
+const LEARNING_RATE = 0.2;
+
+/**
+ * Gas parameters of one chain: overhead per flashloan provider, cost per swap by DEX type
+ * and cost per tick crossing
+ */
+export interface GasParams {
+  base: Record<FlashloanProvider, number>;
+  swap: Record<DexType, number>;
+  tickCross: number;
+  samples: number; // Receipts and simulations calibrated against
+  errorPct: number; // Moving average of the absolute prediction error before each update
+}
+
+export type GasModelSnapshot = Map<ChainId, GasParams>;
+
+type GasStep = Pick<SwapStep, 'dexType' | 'ticksCrossed'>;
+
+/**
+ * Linear gas model per chain, starting from defaults and calibrated online against the gas
+ * actually used by our own trades (receipts) and by their simulated executions
+ * Each sample moves the parameters it involves by a share of the prediction error
+ * (normalized least mean squares)
+ */
+export class GasModel {
+  private params: Map<ChainId, GasParams> = new Map();
+  private defaults = getDefaults();
+  private onCalibratedCallback?: () => void;
+
+  /**
+   * Predicted gas of a trade through the given swaps
+   */
+  estimate(chainId: ChainId, flashloanProvider: FlashloanProvider, steps: GasStep[]): bigint {
+    const params = this.params.get(chainId) ?? this.defaults;
+    return BigInt(Math.round(predict(params, flashloanProvider, steps)));
+  }
+
+  /**
+   * Calibrate a chain's parameters against the gas one trade used
+   */
+  record(
+    chainId: ChainId,
+    flashloanProvider: FlashloanProvider,
+    steps: GasStep[],
+    gasUsed: bigint,
+    source: 'receipt' | 'simulation'
+  ): void {
+    if (gasUsed <= 0n || steps.length === 0) return;
+
+    let params = this.params.get(chainId);
+    if (!params) {
+      params = getDefaults();
+      this.params.set(chainId, params);
+    }
+    const actual = Number(gasUsed);
+    const predicted = predict(params, flashloanProvider, steps);
+    const error = actual - predicted;
+
+    // Features: one for the provider overhead, the swap count per DEX type and the tick crossings
+    const swaps = new Map<DexType, number>();
+    let ticks = 0;
+    for (const step of steps) {
+      swaps.set(step.dexType, (swaps.get(step.dexType) ?? 0) + 1);
+      ticks += step.ticksCrossed ?? 0;
+    }
+    const norm = 1 + [...swaps.values()].reduce((sum, n) => sum + n * n, 0) + ticks * ticks;
+    const delta = (LEARNING_RATE * error) / norm;
+
+    params.base[flashloanProvider] = Math.max(0, params.base[flashloanProvider] + delta);
+    for (const [dexType, count] of swaps) {
+      params.swap[dexType] = Math.max(0, params.swap[dexType] + delta * count);
+    }
+    params.tickCross = Math.max(0, params.tickCross + delta * ticks);
+
+    const errorPct = (Math.abs(error) / actual) * 100;
+    params.errorPct = params.samples === 0 ? errorPct : params.errorPct * 0.9 + errorPct * 0.1;
+    params.samples++;
+
+    logger.debug({ chainId, source, gasUsed: actual, predicted: Math.round(predicted) }, 'Gas model calibrated');
+    this.onCalibratedCallback?.();
+  }
+
+  /**
+   * Set callback for after each calibration
+   */
+  onCalibrated(callback: typeof this.onCalibratedCallback): void {
+    this.onCalibratedCallback = callback;
+  }
+
+  /**
+   * Parameters of every chain calibrated so far
+   */
+  getParams(): Map<ChainId, GasParams> {
+    return this.params;
+  }
+
+  /**
+   * Copy of the calibrated parameters, e.g. for a detection worker's model
+   */
+  snapshot(): GasModelSnapshot {
+    return structuredClone(this.params);
+  }
+
+  /**
+   * Replace the parameters with a snapshot taken from another model
+   */
+  restore(snapshot: GasModelSnapshot): void {
+    this.params = structuredClone(snapshot);
+  }
+}
+
+/**
+ * Parameters before any calibration; per-swap costs come from the DEX adapters
+ */
+export function getDefaults(): GasParams {
+  const swap = {} as Record<DexType, number>;
+  for (const dexType of Object.values(DexType)) {
+    if (typeof dexType === 'number') swap[dexType] = Number(getDexAdapter(dexType).estimateGas());
+  }
+  return {
+    base: { ...DEFAULT_BASE_GAS },
+    swap,
+    tickCross: DEFAULT_TICK_CROSS_GAS,
+    samples: 0,
+    errorPct: 0,
+  };
+}
+
+function predict(params: GasParams, flashloanProvider: FlashloanProvider, steps: GasStep[]): number {
+  return steps.reduce(
+    (gas, step) => gas + params.swap[step.dexType] + params.tickCross * (step.ticksCrossed ?? 0),
+    params.base[flashloanProvider]
+  );
+}
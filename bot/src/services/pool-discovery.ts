@@ -0,0 +1,187 @@
+import { getContract, parseAbiItem, type Address, type PublicClient } from 'viem';
+import type { DexConfig, RegisteredPool } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import type { PoolRegistry } from './pool-registry.js';
+import { getDexAdapter, readCurveCoins } from '../adapters/index.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'pool-discovery' });
+
+// Curve registries and factories expose an enumerable pool list instead of creation events
+const CURVE_REGISTRY_ABI = [
+  parseAbiItem('function pool_count() view returns (uint256)'),
+  parseAbiItem('function pool_list(uint256 index) view returns (address)'),
+  parseAbiItem('function is_meta(address pool) view returns (bool)'),
+  parseAbiItem('function get_base_pool(address pool) view returns (address)'),
+  parseAbiItem('function get_pool_from_lp_token(address lpToken) view returns (address)'),
+] as const;
+
+const NATIVE_ETH = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+// Blocks per eth_getLogs request; halved automatically when the RPC rejects a range
+const DISCOVERY_BLOCK_RANGE = BigInt(process.env.DISCOVERY_BLOCK_RANGE || 10000);
+const MIN_BLOCK_RANGE = 100n;
+
+// Registry entries read concurrently when enumerating Curve pools
+const DISCOVERY_CONCURRENCY = Number(process.env.DISCOVERY_CONCURRENCY) || 50;
+
+// Flush the registry to disk at most this often during a long backfill
+const SAVE_INTERVAL_MS = 30_000;
+
+/**
+ * Backfills factory creation events into the pool registry
+ */
+export class PoolDiscovery {
+  constructor(
+    private client: PublicClient,
+    private registry: PoolRegistry
+  ) {}
+
+  /**
+   * Scan a factory's creation events from where the last scan stopped up to the chain head
+   * Returns the number of newly discovered pools
+   */
+  async backfill(dex: DexConfig): Promise<number> {
+    if (dex.type === DexType.Curve) {
+      return this.enumerateCurvePools(dex);
+    }
+
+    const latest = await this.client.getBlockNumber();
+    const lastScanned = this.registry.getLastBlock(dex.factory);
+
+    let fromBlock = lastScanned !== undefined ? lastScanned + 1n : dex.deployBlock ?? 0n;
+    let range = DISCOVERY_BLOCK_RANGE;
+    let found = 0;
+    let lastSave = Date.now();
+
+    if (fromBlock <= latest) {
+      logger.info({ dex: dex.name, fromBlock, toBlock: latest }, 'Backfilling pool creation events');
+    }
+
+    try {
+      while (fromBlock <= latest) {
+        const toBlock = fromBlock + range - 1n < latest ? fromBlock + range - 1n : latest;
+
+        let pools: RegisteredPool[];
+        try {
+          pools = await this.fetchPools(dex, fromBlock, toBlock);
+        } catch (error) {
+          if (range <= MIN_BLOCK_RANGE) throw error;
+          range /= 2n;
+          logger.debug({ dex: dex.name, range, error }, 'getLogs failed, shrinking block range');
+          continue;
+        }
+
+        for (const pool of pools) {
+          this.registry.addPool(pool);
+        }
+        this.registry.setLastBlock(dex.factory, toBlock);
+        found += pools.length;
+        fromBlock = toBlock + 1n;
+
+        if (Date.now() - lastSave > SAVE_INTERVAL_MS) {
+          await this.registry.save();
+          lastSave = Date.now();
+          logger.info({ dex: dex.name, block: toBlock, found }, 'Discovery progress');
+        }
+      }
+    } finally {
+      await this.registry.save();
+    }
+
+    return found;
+  }
+
+  /**
+   * Walk a Curve registry's pool list, resuming from the last index read
+   * Pools holding native ETH are skipped since the executor only swaps ERC20s
+   */
+  private async enumerateCurvePools(dex: DexConfig): Promise<number> {
+    const registry = getContract({
+      address: dex.factory,
+      abi: CURVE_REGISTRY_ABI,
+      client: this.client,
+    });
+
+    const [count, head] = await Promise.all([
+      registry.read.pool_count(),
+      this.client.getBlockNumber(),
+    ]);
+
+    let found = 0;
+
+    try {
+      // Read pools a chunk at a time so the client can merge the reads into multicalls
+      for (let start = this.registry.getLastIndex(dex.factory) ?? 0; start < Number(count); start += DISCOVERY_CONCURRENCY) {
+        const end = Math.min(start + DISCOVERY_CONCURRENCY, Number(count));
+        const indices = Array.from({ length: end - start }, (_, i) => start + i);
+
+        const pools = await Promise.all(indices.map(async (index): Promise<RegisteredPool | null> => {
+          const address = await registry.read.pool_list([BigInt(index)]);
+          const coins = await readCurveCoins(this.client, address);
+          if (coins.length < 2 || coins.some(c => c.toLowerCase() === NATIVE_ETH)) return null;
+
+          const isMeta = await registry.read.is_meta([address]).catch(() => false);
+          const basePool = isMeta ? await this.findCurveBasePool(dex, address, coins) : undefined;
+          if (isMeta && !basePool) return null;
+
+          return {
+            dex: dex.name,
+            dexType: dex.type,
+            factory: dex.factory,
+            address,
+            token0: coins[0] as Address,
+            token1: coins[1] as Address,
+            coins,
+            basePool,
+            createdBlock: head,
+          };
+        }));
+
+        for (const pool of pools) {
+          if (!pool) continue;
+          this.registry.addPool(pool);
+          found++;
+        }
+
+        this.registry.setLastIndex(dex.factory, end);
+      }
+    } finally {
+      await this.registry.save();
+    }
+
+    return found;
+  }
+
+  /**
+   * Resolve the base pool of a Curve meta pool
+   */
+  private async findCurveBasePool(dex: DexConfig, pool: Address, coins: Address[]): Promise<Address | undefined> {
+    const registry = getContract({
+      address: dex.factory,
+      abi: CURVE_REGISTRY_ABI,
+      client: this.client,
+    });
+
+    const zero = '0x0000000000000000000000000000000000000000';
+    const basePool = await registry.read.get_base_pool([pool]).catch(() => undefined);
+    if (basePool && basePool !== zero) return basePool;
+
+    // Older registries only map the base pool's LP token (the meta pool's last coin)
+    const lpToken = coins[coins.length - 1];
+    if (!lpToken) return undefined;
+    const fromLp = await registry.read.get_pool_from_lp_token([lpToken]).catch(() => undefined);
+    return fromLp && fromLp !== zero ? fromLp : undefined;
+  }
+
+  /**
+   * Fetch pools created by a factory within a block range, decoded by the DEX's adapter
+   */
+  private async fetchPools(
+    dex: DexConfig,
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<RegisteredPool[]> {
+    return getDexAdapter(dex.type).fetchPools?.(this.client, dex, fromBlock, toBlock) ?? [];
+  }
+}
@@ -0,0 +1,137 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import type { Address } from 'viem';
+import type { ChainId, RegisteredPool } from '../types/index.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'pool-registry' });
+
+const DEFAULT_DATA_DIR = process.env.POOL_REGISTRY_DIR || 'data';
+
+interface RegistryFile {
+  chainId: ChainId;
+  // Scan cursor per factory (last block for event logs, next list index for registries),
+  // so discovery can resume after a restart
+  factories: Record<string, { lastBlock?: string; lastIndex?: number }>;
+  pools: (Omit<RegisteredPool, 'createdBlock'> & { createdBlock: string })[];
+}
+
+/**
+ * Persistent on-disk registry of pools discovered from factory events
+ */
+export class PoolRegistry {
+  private pools: Map<string, RegisteredPool> = new Map();
+  private lastBlocks: Map<string, bigint> = new Map();
+  private lastIndices: Map<string, number> = new Map();
+  private filePath: string;
+  private dirty = false;
+
+  constructor(private chainId: ChainId, dataDir: string = DEFAULT_DATA_DIR) {
+    this.filePath = join(dataDir, `pools-${chainId}.json`);
+  }
+
+  /**
+   * Load the registry from disk (missing file = empty registry)
+   */
+  async load(): Promise<void> {
+    let raw: string;
+    try {
+      raw = await readFile(this.filePath, 'utf8');
+    } catch {
+      logger.info({ chainId: this.chainId, file: this.filePath }, 'No pool registry on disk, starting fresh');
+      return;
+    }
+
+    const data = JSON.parse(raw) as RegistryFile;
+    for (const [factory, { lastBlock, lastIndex }] of Object.entries(data.factories)) {
+      if (lastBlock !== undefined) this.lastBlocks.set(factory.toLowerCase(), BigInt(lastBlock));
+      if (lastIndex !== undefined) this.lastIndices.set(factory.toLowerCase(), lastIndex);
+    }
+    for (const pool of data.pools) {
+      this.pools.set(pool.address.toLowerCase(), { ...pool, createdBlock: BigInt(pool.createdBlock) });
+    }
+
+    logger.info({ chainId: this.chainId, pools: this.pools.size }, 'Pool registry loaded');
+  }
+
+  /**
+   * Write the registry to disk atomically
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    const factories: RegistryFile['factories'] = {};
+    for (const [factory, block] of this.lastBlocks) {
+      factories[factory] = { ...factories[factory], lastBlock: block.toString() };
+    }
+    for (const [factory, index] of this.lastIndices) {
+      factories[factory] = { ...factories[factory], lastIndex: index };
+    }
+
+    const data: RegistryFile = {
+      chainId: this.chainId,
+      factories,
+      pools: Array.from(this.pools.values(), pool => ({ ...pool, createdBlock: pool.createdBlock.toString() })),
+    };
+
+    await mkdir(dirname(this.filePath), { recursive: true });
+
+    const tmpPath = `${this.filePath}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data));
+    await rename(tmpPath, this.filePath);
+    this.dirty = false;
+  }
+
+  /**
+   * Add or replace a pool
+   */
+  addPool(pool: RegisteredPool): void {
+    this.pools.set(pool.address.toLowerCase(), pool);
+    this.dirty = true;
+  }
+
+  /**
+   * Get all pools created by a factory
+   */
+  getPools(factory: Address): RegisteredPool[] {
+    const key = factory.toLowerCase();
+    return Array.from(this.pools.values()).filter(p => p.factory.toLowerCase() === key);
+  }
+
+  /**
+   * Last block scanned for a factory, if any
+   */
+  getLastBlock(factory: Address): bigint | undefined {
+    return this.lastBlocks.get(factory.toLowerCase());
+  }
+
+  /**
+   * Record that a factory has been scanned up to (and including) a block
+   */
+  setLastBlock(factory: Address, block: bigint): void {
+    this.lastBlocks.set(factory.toLowerCase(), block);
+    this.dirty = true;
+  }
+
+  /**
+   * Next list index to read for a registry-style factory, if any
+   */
+  getLastIndex(factory: Address): number | undefined {
+    return this.lastIndices.get(factory.toLowerCase());
+  }
+
+  /**
+   * Record how many entries of a registry-style factory have been read
+   */
+  setLastIndex(factory: Address, index: number): void {
+    this.lastIndices.set(factory.toLowerCase(), index);
+    this.dirty = true;
+  }
+
+  /**
+   * Total pools in the registry
+   */
+  get size(): number {
+    return this.pools.size;
+  }
+}
@@ -3,45 +3,77 @@ import {
   webSocket,
   http,
   parseAbiItem,
+  toEventSelector,
+  type AbiEvent,
   type Address,
+  type Hash,
+  type Hex,
+  type Log,
   type PublicClient,
-  type WatchContractEventReturnType,
-  getContract,
 } from 'viem';
 import { mainnet, arbitrum, base, optimism, arbitrumSepolia } from 'viem/chains';
-import type { ChainConfig, ChainId, PoolReserves, Edge, DexConfig } from '../types/index.js';
-import { DexType } from '../types/index.js';
-import { ArbitrageDetector } from './arbitrage-detector.js';
+import type {
+  ChainId,
+  ChainTokenConfig,
+  DexType,
+  Edge,
+  PoolReserves,
+  DexConfig,
+  PoolInfo,
+  RegisteredPool,
+  ReorgEvent,
+  ArbitrageOpportunity,
+} from '../types/index.js';
+import { DetectorThread } from './detector-thread.js';
+import { PoolDiscovery } from './pool-discovery.js';
+import { PoolRegistry } from './pool-registry.js';
+import { TokenRegistry } from './token-registry.js';
+import type { GasModelSnapshot } from './gas-model.js';
 import { CHAIN_CONFIGS } from '../config/chains.js';
+import { loadTokenConfig, matchesPair, verifyTokenConfig } from '../config/tokens.js';
+import {
+  clonePoolState,
+  getDexAdapter,
+  getPoolTokens,
+  type PoolLogUpdate,
+  type PoolSnapshot,
+  type PoolSubscription,
+} from '../adapters/index.js';
+import { mapInBatches } from '../utils/batch.js';
+import { getPriceFeed } from '../utils/price-feed.js';
 import pino from 'pino';
 
 const logger = pino({ name: 'price-monitor' });
 
-// ABIs for different pool types
-const UNISWAP_V2_PAIR_ABI = [
-  parseAbiItem('event Sync(uint112 reserve0, uint112 reserve1)'),
-  parseAbiItem('function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'),
-  parseAbiItem('function token0() view returns (address)'),
-  parseAbiItem('function token1() view returns (address)'),
-] as const;
+// Cap on registry pools monitored per DEX
+const MAX_POOLS_PER_DEX = Number(process.env.MAX_POOLS_PER_DEX) || 100;
 
-const UNISWAP_V2_FACTORY_ABI = [
-  parseAbiItem('function getPair(address tokenA, address tokenB) view returns (address pair)'),
-  parseAbiItem('function allPairs(uint256) view returns (address pair)'),
-  parseAbiItem('function allPairsLength() view returns (uint256)'),
-] as const;
+// Multicall3 batching: reads issued in the same tick are merged into aggregate3 calls
+// of at most MULTICALL_BATCH_SIZE bytes of calldata
+const MULTICALL_BATCH_SIZE = Number(process.env.MULTICALL_BATCH_SIZE) || 8192;
+const MULTICALL_WAIT_MS = Number(process.env.MULTICALL_WAIT_MS) || 0;
 
-const UNISWAP_V3_POOL_ABI = [
-  parseAbiItem('event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)'),
-  parseAbiItem('function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)'),
-  parseAbiItem('function liquidity() view returns (uint128)'),
-  parseAbiItem('function token0() view returns (address)'),
-  parseAbiItem('function token1() view returns (address)'),
-  parseAbiItem('function fee() view returns (uint24)'),
-] as const;
+// Pools loaded (or refreshed) concurrently; their reads share multicall batches
+const DISCOVERY_CONCURRENCY = Number(process.env.DISCOVERY_CONCURRENCY) || 50;
+
+// How long to collect logs before applying them and running detection, so that all
+// logs of one block (or Flashblock / Arbitrum batch) are seen together
+const BLOCK_SETTLE_MS = Number(process.env.BLOCK_SETTLE_MS) || 25;
+
+// Blocks per eth_getLogs request when backfilling logs missed during a disconnect
+const RESYNC_BLOCK_RANGE = BigInt(process.env.RESYNC_BLOCK_RANGE || 2000);
+
+// Blocks of applied log ids kept to drop duplicates delivered live and by a backfill
+const APPLIED_LOG_RETENTION = 128n;
+
+// Blocks of per-pool state history kept for rolling back reorgs
+const REORG_HISTORY_DEPTH = BigInt(process.env.REORG_HISTORY_DEPTH || 64);
+
+// Periodic re-read of reserves/slot0 to correct drift from missed events (0 = disabled)
+const RESERVE_REFRESH_INTERVAL_MS = Number(process.env.RESERVE_REFRESH_INTERVAL_MS ?? 60_000);
 
-const UNISWAP_V3_FACTORY_ABI = [
-  parseAbiItem('function getPool(address tokenA, address tokenB, uint24 fee) view returns (address pool)'),
+const ERC20_ABI = [
+  parseAbiItem('function balanceOf(address account) view returns (uint256)'),
 ] as const;
 
 const chainMap = {
@@ -52,25 +84,36 @@ const chainMap = {
   421614: arbitrumSepolia,
 } as const;
 
-interface PoolSubscription {
-  pool: Address;
-  dex: string;
-  dexType: DexType;
-  router: Address;
-  token0: Address;
-  token1: Address;
-  fee: number;
-  unwatch?: WatchContractEventReturnType;
+// A chain's shared log subscription and the DEX type each subscribed address belongs to
+interface LogSubscription {
+  filter: string; // Subscribed addresses and topics, to tell when the pool set has changed
+  routes: Map<string, DexType>;
+  unwatch: () => void;
 }
 
 export class PriceMonitor {
   private clients: Map<ChainId, PublicClient> = new Map();
   private subscriptions: Map<ChainId, PoolSubscription[]> = new Map();
   private reserves: Map<string, PoolReserves> = new Map();
-  private detectors: Map<ChainId, ArbitrageDetector> = new Map();
-  private onOpportunityCallback?: (opportunities: ReturnType<ArbitrageDetector['findArbitrageOpportunities']>) => void;
-
-  constructor(private enabledChains: ChainId[]) {
+  private detectors: Map<ChainId, DetectorThread> = new Map(); // One detection worker per chain
+  private tokenConfigs: Map<ChainId, ChainTokenConfig> = new Map();
+  private tokenRegistries: Map<ChainId, TokenRegistry> = new Map(); // Decimals and USD prices for edge pricing
+  private refreshTimer?: NodeJS.Timeout;
+  private pendingLogs: Map<ChainId, PoolLogUpdate[]> = new Map();
+  private flushTimers: Map<ChainId, NodeJS.Timeout> = new Map();
+  private lastBlock: Map<ChainId, bigint> = new Map(); // Last block whose logs have all been applied
+  private lastEventBlock: Map<ChainId, bigint> = new Map(); // Last block with a monitored pool log
+  private appliedLogs: Map<ChainId, Map<bigint, Set<number>>> = new Map();
+  private outOfSync: Set<ChainId> = new Set();
+  private resyncing: Set<ChainId> = new Set();
+  private blockWatchers: Map<ChainId, () => void> = new Map();
+  private logSubscriptions: Map<ChainId, LogSubscription> = new Map(); // One eth_subscribe('logs') per chain
+  private blockHashes: Map<ChainId, Map<bigint, Hash>> = new Map(); // Canonical hashes of recent blocks
+  private reorgFork: Map<ChainId, bigint> = new Map(); // Fork block of a reorg still being resynced
+  private onReorgCallback?: (event: ReorgEvent) => void;
+  private onOpportunityCallback?: (opportunities: ArbitrageOpportunity[]) => void;
+
+  constructor(private enabledChains: ChainId[], private maxProfitShortfallBps: number) {
     for (const chainId of enabledChains) {
       const config = CHAIN_CONFIGS[chainId];
       if (!config) continue;
@@ -83,11 +126,13 @@ export class PriceMonitor {
         transport: config.wsUrl 
           ? webSocket(config.wsUrl, { reconnect: true })
           : http(config.rpcUrl),
+        batch: {
+          multicall: { batchSize: MULTICALL_BATCH_SIZE, wait: MULTICALL_WAIT_MS },
+        },
       });
 
       this.clients.set(chainId, client);
       this.subscriptions.set(chainId, []);
-      this.detectors.set(chainId, new ArbitrageDetector(chainId));
     }
   }
 
@@ -99,222 +144,169 @@ export class PriceMonitor {
 
     for (const chainId of this.enabledChains) {
       const config = CHAIN_CONFIGS[chainId];
-      if (!config) continue;
+      const client = this.clients.get(chainId);
+      if (!config || !client) continue;
+
+      const tokens = await loadTokenConfig(chainId);
+      await verifyTokenConfig(client, tokens);
+      this.tokenConfigs.set(chainId, tokens);
+
+      // Prices come first so edges are priced with USD-sized probes from the start
+      const tokenRegistry = new TokenRegistry(tokens);
+      await tokenRegistry.refreshPrices(getPriceFeed());
+      this.tokenRegistries.set(chainId, tokenRegistry);
+
+      const detector = new DetectorThread(chainId, tokens, this.maxProfitShortfallBps);
+      detector.setTokens(tokenRegistry.snapshot());
+      detector.onOpportunities(opportunities => this.onOpportunityCallback?.(opportunities));
+      this.detectors.set(chainId, detector);
+      await this.refreshFlashLiquidity(chainId);
 
       logger.info({ chain: config.name }, 'Discovering pools...');
 
+      const registry = new PoolRegistry(chainId);
+      await registry.load();
+      const discovery = new PoolDiscovery(client, registry);
+
+      const startedAt = Date.now();
+      let backfillMs = 0;
+      let loadMs = 0;
+
       for (const dex of config.dexes) {
-        await this.discoverPools(chainId, dex);
+        const timing = await this.discoverPools(chainId, dex, discovery, registry);
+        backfillMs += timing.backfillMs;
+        loadMs += timing.loadMs;
       }
 
       const subs = this.subscriptions.get(chainId) || [];
-      logger.info({ chain: config.name, pools: subs.length }, 'Pool discovery complete');
+      logger.info({
+        chain: config.name,
+        pools: subs.length,
+        registered: registry.size,
+        backfillMs,
+        loadMs,
+        totalMs: Date.now() - startedAt,
+      }, 'Pool discovery complete');
     }
   }
 
   /**
-   * Discover pools for a DEX
+   * Discover pools for a DEX from the persisted registry, backfilling new factory events first
+   * Returns how long the backfill and the pool state load took
    */
-  private async discoverPools(chainId: ChainId, dex: DexConfig): Promise<void> {
-    const client = this.clients.get(chainId);
-    if (!client) return;
+  private async discoverPools(
+    chainId: ChainId,
+    dex: DexConfig,
+    discovery: PoolDiscovery,
+    registry: PoolRegistry
+  ): Promise<{ backfillMs: number; loadMs: number }> {
+    const backfillStart = Date.now();
+    try {
+      const found = await discovery.backfill(dex);
+      logger.info({ dex: dex.name, found, durationMs: Date.now() - backfillStart }, 'Factory backfill complete');
+    } catch (error) {
+      logger.warn({ dex: dex.name, error }, 'Factory backfill failed, using registry snapshot');
+    }
+    const backfillMs = Date.now() - backfillStart;
 
-    const config = CHAIN_CONFIGS[chainId];
-    if (!config) return;
-
-    // Key token pairs to monitor
-    const tokenPairs = this.getKeyTokenPairs(chainId);
-
-    if (dex.type === DexType.UniswapV2 || dex.type === DexType.Velodrome) {
-      await this.discoverV2Pools(chainId, dex, tokenPairs);
-    } else if (dex.type === DexType.UniswapV3) {
-      await this.discoverV3Pools(chainId, dex, tokenPairs);
-    }
-  }
-
-  /**
-   * Get key token pairs for a chain
-   */
-  private getKeyTokenPairs(chainId: ChainId): [Address, Address][] {
-    const pairs: [Address, Address][] = [];
-    
-    // Common tokens per chain
-    const tokens: Record<ChainId, Address[]> = {
-      1: [
-        '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2', // WETH
-        '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
-        '0xdAC17F958D2ee523a2206206994597C13D831ec7', // USDT
-        '0x6B175474E89094C44Da98b954EedefdFD691903dCB', // DAI
-        '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599', // WBTC
-      ],
-      42161: [
-        '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1', // WETH
-        '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC
-        '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', // USDT
-        '0x912CE59144191C1204E64559FE8253a0e49E6548', // ARB
-      ],
-      8453: [
-        '0x4200000000000000000000000000000000000006', // WETH
-        '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC
-        '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22', // cbETH
-      ],
-      10: [
-        '0x4200000000000000000000000000000000000006', // WETH
-        '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', // USDC
-        '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58', // USDT
-        '0x4200000000000000000000000000000000000042', // OP
-      ],
-      421614: [
-        '0x980B62Da83eFf3D4576C647993b0c1D7faf17c73', // WETH
-        '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', // USDC
-        '0xb1D4538B4571d411F07960EF2838Ce337FE1E80E', // LINK
-      ],
-    };
+    dex.pools = this.selectPools(chainId, dex, registry.getPools(dex.factory));
 
-    const chainTokens = tokens[chainId] || [];
-    
-    // Generate all pairs
-    for (let i = 0; i < chainTokens.length; i++) {
-      for (let j = i + 1; j < chainTokens.length; j++) {
-        const tokenA = chainTokens[i];
-        const tokenB = chainTokens[j];
-        if (tokenA && tokenB) {
-          pairs.push([tokenA, tokenB]);
-        }
-      }
-    }
+    const loadStart = Date.now();
+
+    await this.loadPools(chainId, dex);
+    const loadMs = Date.now() - loadStart;
 
-    return pairs;
+    logger.info({ dex: dex.name, pools: dex.pools.length, durationMs: loadMs }, 'Pool state loaded');
+    return { backfillMs, loadMs };
   }
 
   /**
-   * Discover V2-style pools
+   * Pick the registry pools to monitor: statically configured pools first, then pools of
+   * configured pairs/fee tiers, then pools touching the token universe, preferring pairs
+   * of two known tokens and older pools
    */
-  private async discoverV2Pools(
-    chainId: ChainId,
-    dex: DexConfig,
-    tokenPairs: [Address, Address][]
-  ): Promise<void> {
-    const client = this.clients.get(chainId);
-    if (!client) return;
+  private selectPools(chainId: ChainId, dex: DexConfig, registered: RegisteredPool[]): PoolInfo[] {
+    const keyTokens = new Set(this.getKeyTokens(chainId).map(t => t.toLowerCase()));
+    const pairs = this.tokenConfigs.get(chainId)?.pairs ?? [];
+    const configured = new Set(dex.pools.map(p => p.address.toLowerCase()));
 
-    const factory = getContract({
-      address: dex.factory,
-      abi: UNISWAP_V2_FACTORY_ABI,
-      client,
-    });
+    const score = (pool: PoolInfo): number =>
+      (pool.coins ?? [pool.token0, pool.token1]).filter(t => keyTokens.has(t.toLowerCase())).length +
+      (matchesPair(pairs, pool.token0, pool.token1, pool.fee) ? 10 : 0); // Configured pairs outrank any coin count
+
+    const candidates = registered
+      .filter(p => !configured.has(p.address.toLowerCase()) && score(p) > 0)
+      .sort((a, b) => score(b) - score(a) || Number(a.createdBlock - b.createdBlock));
 
-    for (const [tokenA, tokenB] of tokenPairs) {
+    return [...dex.pools, ...candidates.slice(0, Math.max(0, MAX_POOLS_PER_DEX - dex.pools.length))];
+  }
+
+  /**
+   * Addresses of the configured token universe for a chain
+   */
+  private getKeyTokens(chainId: ChainId): Address[] {
+    return this.tokenConfigs.get(chainId)?.tokens.map(t => t.address) ?? [];
+  }
+
+  /**
+   * Load state for a DEX's selected pools through its adapter
+   */
+  private async loadPools(chainId: ChainId, dex: DexConfig): Promise<void> {
+    const client = this.clients.get(chainId);
+    const tokens = this.tokenRegistries.get(chainId);
+    if (!client || !tokens) return;
+
+    const adapter = getDexAdapter(dex.type);
+    await mapInBatches(dex.pools, DISCOVERY_CONCURRENCY, async (poolInfo) => {
       try {
-        const pairAddress = await factory.read.getPair([tokenA, tokenB]);
-        
-        if (pairAddress && pairAddress !== '0x0000000000000000000000000000000000000000') {
-          const pair = getContract({
-            address: pairAddress,
-            abi: UNISWAP_V2_PAIR_ABI,
-            client,
-          });
-
-          const [token0, token1, reserves] = await Promise.all([
-            pair.read.token0(),
-            pair.read.token1(),
-            pair.read.getReserves(),
-          ]);
-
-          // Determine fee (V2 = 30bps, Velodrome varies)
-          const fee = dex.type === DexType.Velodrome ? 2 : 30; // 0.02% for stable, 0.3% for volatile
-
-          const subscription: PoolSubscription = {
-            pool: pairAddress,
-            dex: dex.name,
-            dexType: dex.type,
-            router: dex.router,
-            token0,
-            token1,
-            fee,
-          };
+        const subscription = await adapter.loadPool(client, dex, poolInfo);
+        if (!subscription) return;
+        await tokens.load(client, getPoolTokens(subscription));
 
-          const subs = this.subscriptions.get(chainId) || [];
-          subs.push(subscription);
-          this.subscriptions.set(chainId, subs);
+        const subs = this.subscriptions.get(chainId) || [];
+        subs.push(subscription);
+        this.subscriptions.set(chainId, subs);
 
-          // Store initial reserves
-          this.updateReserves(chainId, subscription, reserves[0], reserves[1]);
-        }
+        this.updatePool(chainId, subscription);
       } catch (error) {
-        logger.debug({ dex: dex.name, tokenA, tokenB, error }, 'Pair not found');
+        logger.debug({ dex: dex.name, pool: poolInfo.address, error }, 'Failed to load pool');
       }
-    }
+    });
   }
 
   /**
-   * Discover V3-style pools
+   * Start monitoring more pools of a configured DEX (e.g. pools created since startup)
+   * Pools join the chain's log subscription once their state has been loaded
    */
-  private async discoverV3Pools(
-    chainId: ChainId,
-    dex: DexConfig,
-    tokenPairs: [Address, Address][]
-  ): Promise<void> {
-    const client = this.clients.get(chainId);
-    if (!client) return;
+  async addPools(chainId: ChainId, dex: DexConfig, pools: PoolInfo[]): Promise<void> {
+    const known = new Set((this.subscriptions.get(chainId) || []).map(sub => sub.pool.toLowerCase()));
+    await this.loadPools(chainId, { ...dex, pools: pools.filter(p => !known.has(p.address.toLowerCase())) });
 
-    const feeTiers = [100, 500, 3000, 10000]; // 0.01%, 0.05%, 0.3%, 1%
+    if (this.logSubscriptions.has(chainId)) this.updateLogSubscription(chainId);
+  }
 
-    const factory = getContract({
-      address: dex.factory,
-      abi: UNISWAP_V3_FACTORY_ABI,
-      client,
-    });
+  /**
+   * Stop monitoring pools: their edges leave the graph and their addresses the log subscription
+   */
+  removePools(chainId: ChainId, pools: Address[]): void {
+    const removed = new Set(pools.map(pool => pool.toLowerCase()));
+    const isRemoved = (sub: PoolSubscription) => removed.has(sub.pool.toLowerCase());
+    const subs = this.subscriptions.get(chainId) || [];
 
-    for (const [tokenA, tokenB] of tokenPairs) {
-      for (const fee of feeTiers) {
-        try {
-          const poolAddress = await factory.read.getPool([tokenA, tokenB, fee]);
-          
-          if (poolAddress && poolAddress !== '0x0000000000000000000000000000000000000000') {
-            const pool = getContract({
-              address: poolAddress,
-              abi: UNISWAP_V3_POOL_ABI,
-              client,
-            });
-
-            const [token0, token1, liquidity, slot0] = await Promise.all([
-              pool.read.token0(),
-              pool.read.token1(),
-              pool.read.liquidity(),
-              pool.read.slot0(),
-            ]);
-
-            // Convert V3 data to "reserve-like" values for comparison
-            // This is simplified - real V3 quotes need more complex calculation
-            const sqrtPriceX96 = slot0[0];
-
-            const subscription: PoolSubscription = {
-              pool: poolAddress,
-              dex: dex.name,
-              dexType: DexType.UniswapV3,
-              router: dex.router,
-              token0,
-              token1,
-              fee: fee / 100, // Convert to basis points
-            };
-
-            const subs = this.subscriptions.get(chainId) || [];
-            subs.push(subscription);
-            this.subscriptions.set(chainId, subs);
-
-            // Store V3 pool data (using sqrtPrice and liquidity)
-            this.updateV3Pool(chainId, subscription, sqrtPriceX96, liquidity);
-          }
-        } catch (error) {
-          logger.debug({ dex: dex.name, tokenA, tokenB, fee, error }, 'V3 pool not found');
-        }
-      }
+    const detector = this.detectors.get(chainId);
+    for (const sub of subs.filter(isRemoved)) {
+      detector?.removePool(sub.pool);
+      this.reserves.delete(`${chainId}-${sub.pool}`);
     }
+    this.subscriptions.set(chainId, subs.filter(sub => !isRemoved(sub)));
+    this.pendingLogs.set(chainId, (this.pendingLogs.get(chainId) || []).filter(p => !isRemoved(p.sub)));
+
+    if (this.logSubscriptions.has(chainId)) this.updateLogSubscription(chainId);
   }
 
   /**
    * Start listening for price updates
+   * Logs are buffered and applied block by block, with one detection pass per block
    */
   async startMonitoring(): Promise<void> {
     logger.info('Starting price monitoring...');
@@ -324,153 +316,634 @@ export class PriceMonitor {
       const subs = this.subscriptions.get(chainId);
       if (!client || !subs) continue;
 
-      for (const sub of subs) {
-        if (sub.dexType === DexType.UniswapV2 || sub.dexType === DexType.Velodrome) {
-          // Watch Sync events for V2 pools
-          sub.unwatch = client.watchContractEvent({
-            address: sub.pool,
-            abi: UNISWAP_V2_PAIR_ABI,
-            eventName: 'Sync',
-            onLogs: (logs) => {
-              for (const log of logs) {
-                const { reserve0, reserve1 } = log.args;
-                if (reserve0 !== undefined && reserve1 !== undefined) {
-                  this.updateReserves(chainId, sub, reserve0, reserve1);
-                  this.checkArbitrage(chainId);
-                }
-              }
-            },
-          });
-        } else if (sub.dexType === DexType.UniswapV3) {
-          // Watch Swap events for V3 pools
-          sub.unwatch = client.watchContractEvent({
-            address: sub.pool,
-            abi: UNISWAP_V3_POOL_ABI,
-            eventName: 'Swap',
-            onLogs: async (logs) => {
-              for (const log of logs) {
-                const { sqrtPriceX96, liquidity } = log.args;
-                if (sqrtPriceX96 !== undefined && liquidity !== undefined) {
-                  this.updateV3Pool(chainId, sub, sqrtPriceX96, liquidity);
-                  this.checkArbitrage(chainId);
-                }
-              }
-            },
-          });
+      this.updateLogSubscription(chainId);
+
+      this.blockWatchers.set(chainId, client.watchBlocks({
+        onBlock: (block) => this.handleNewBlock(chainId, block),
+        onError: (error) => this.handleConnectionError(chainId, error),
+      }));
+
+      const config = CHAIN_CONFIGS[chainId];
+      logger.info({ chain: config?.name, pools: subs.length }, 'Monitoring started');
+    }
+
+    if (RESERVE_REFRESH_INTERVAL_MS > 0) {
+      this.refreshTimer = setInterval(() => void this.refreshAll(), RESERVE_REFRESH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Monitored pools grouped by DEX type, so each adapter handles all of its pools at once
+   */
+  private groupByDexType(subs: PoolSubscription[]): Map<DexType, PoolSubscription[]> {
+    const groups = new Map<DexType, PoolSubscription[]>();
+    for (const sub of subs) {
+      groups.set(sub.dexType, [...(groups.get(sub.dexType) || []), sub]);
+    }
+    return groups;
+  }
+
+  /**
+   * (Re)create the chain's log subscription for the current pool set
+   * One eth_subscribe('logs') filtered on every adapter's addresses and event topics replaces
+   * a subscription per pool; logs are routed back to the adapters locally. A changed filter
+   * is subscribed before the old subscription is dropped, and logs delivered by both are
+   * deduplicated when applied
+   */
+  private updateLogSubscription(chainId: ChainId): void {
+    const client = this.clients.get(chainId);
+    const subs = this.subscriptions.get(chainId);
+    if (!client || !subs) return;
+
+    const routes = new Map<string, DexType>();
+    const events = new Map<Hex, AbiEvent>();
+    for (const [dexType, pools] of this.groupByDexType(subs)) {
+      const adapter = getDexAdapter(dexType);
+      for (const address of adapter.getLogAddresses(pools)) {
+        routes.set(address.toLowerCase(), dexType);
+      }
+      for (const event of adapter.events) {
+        events.set(toEventSelector(event), event);
+      }
+    }
+
+    const filter = [...Array.from(routes.keys()).sort(), ...Array.from(events.keys()).sort()].join(',');
+    const current = this.logSubscriptions.get(chainId);
+    if (current?.filter === filter) return;
+
+    // A dropped socket reports an error on the subscription; the transport resubscribes
+    // on reconnect and the next head triggers a resync
+    const unwatch = routes.size === 0 ? () => {} : client.watchEvent({
+      address: Array.from(routes.keys()) as Address[],
+      events: Array.from(events.values()),
+      onLogs: (logs) => this.handleLogs(chainId, logs),
+      onError: (error) => this.handleConnectionError(chainId, error),
+    });
+    this.logSubscriptions.set(chainId, { filter, routes, unwatch });
+    current?.unwatch();
+
+    const config = CHAIN_CONFIGS[chainId];
+    logger.info({ chain: config?.name, addresses: routes.size, topics: events.size }, 'Log subscription updated');
+  }
+
+  /**
+   * Route a batch of logs from the chain's subscription to the adapters owning their addresses
+   */
+  private handleLogs(chainId: ChainId, logs: Log[]): void {
+    const client = this.clients.get(chainId);
+    const subscription = this.logSubscriptions.get(chainId);
+    if (!client || !subscription) return;
+
+    // A removed log means the chain reorganized; the resync refetches the new chain's logs
+    const removed = logs.find(log => log.removed);
+    if (removed) {
+      this.handleReorg(chainId, removed.blockNumber ?? this.lastBlock.get(chainId) ?? 0n);
+      return;
+    }
+
+    const byType = new Map<DexType, Log[]>();
+    for (const log of logs) {
+      const dexType = subscription.routes.get(log.address.toLowerCase());
+      if (dexType === undefined) continue;
+      const batch = byType.get(dexType) || [];
+      batch.push(log);
+      byType.set(dexType, batch);
+    }
+
+    const subs = this.groupByDexType(this.subscriptions.get(chainId) || []);
+    for (const [dexType, batch] of byType) {
+      void getDexAdapter(dexType).decodeLogs(client, subs.get(dexType) || [], batch)
+        .then(updates => {
+          for (const update of updates) this.enqueueLog(chainId, update);
+        })
+        .catch(error => logger.warn({ chainId, dexType, error }, 'Failed to decode pool logs'));
+    }
+  }
+
+  /**
+   * Buffer a log's state update until its block is complete
+   * A log from a newer block closes out every earlier pending block; otherwise the
+   * buffer is flushed BLOCK_SETTLE_MS after its first log, which groups the logs of a
+   * block (or of a Flashblock / Arbitrum batch) that arrive in separate batches
+   */
+  private enqueueLog(chainId: ChainId, update: PoolLogUpdate): void {
+    const pending = this.pendingLogs.get(chainId) || [];
+    const blockNumber = update.blockNumber;
+
+    // A log from a different block at a height we already know means the chain
+    // reorganized; the resync refetches the new chain's logs
+    const knownHash = this.blockHashes.get(chainId)?.get(blockNumber);
+    if (update.blockHash && knownHash && update.blockHash !== knownHash) {
+      this.handleReorg(chainId, blockNumber);
+      return;
+    }
+
+    if (pending.some(p => p.blockNumber < blockNumber)) {
+      this.flushLogs(chainId, blockNumber);
+    }
+
+    const queue = this.pendingLogs.get(chainId) || [];
+    queue.push(update);
+    this.pendingLogs.set(chainId, queue);
+
+    if (!this.flushTimers.has(chainId)) {
+      this.flushTimers.set(chainId, setTimeout(() => this.flushLogs(chainId), BLOCK_SETTLE_MS));
+    }
+  }
+
+  /**
+   * Apply buffered logs in chain order (only blocks before `beforeBlock` if given),
+   * then run detection once against the result
+   */
+  private flushLogs(chainId: ChainId, beforeBlock?: bigint): void {
+    const timer = this.flushTimers.get(chainId);
+    if (timer) clearTimeout(timer);
+    this.flushTimers.delete(chainId);
+
+    // Live logs are newer than the backfill, so they wait until it has been applied
+    if (this.resyncing.has(chainId)) return;
+
+    const buffered = this.pendingLogs.get(chainId) || [];
+    const pending = buffered.filter(p => beforeBlock === undefined || p.blockNumber < beforeBlock);
+    const remaining = buffered.filter(p => beforeBlock !== undefined && p.blockNumber >= beforeBlock);
+    this.pendingLogs.set(chainId, remaining);
+
+    if (remaining.length > 0) {
+      this.flushTimers.set(chainId, setTimeout(() => this.flushLogs(chainId), BLOCK_SETTLE_MS));
+    }
+    if (pending.length === 0) return;
+
+    this.applyLogs(chainId, pending);
+    this.checkArbitrage(chainId, this.lastBlock.get(chainId) ?? 0n, true);
+  }
+
+  /**
+   * Apply log updates in (block, logIndex) order, skipping logs already applied
+   * (a log can arrive both live and from a post-reconnect backfill)
+   */
+  private applyLogs(chainId: ChainId, logs: PoolLogUpdate[]): void {
+    logs.sort((a, b) => (a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber ? -1 : 1));
+
+    const applied = this.appliedLogs.get(chainId) || new Map<bigint, Set<number>>();
+    this.appliedLogs.set(chainId, applied);
+
+    let blockNumber = this.lastBlock.get(chainId) ?? 0n;
+    for (const log of logs) {
+      // Late log for a block a refresh already read the pool at: only what the read missed is left,
+      // the tick liquidity of a Mint/Burn unless the read reloaded the ticks too
+      let apply: (() => void) | undefined = log.apply;
+      if (log.sub.refreshedBlock !== undefined && log.blockNumber <= log.sub.refreshedBlock) {
+        const ticksRead = log.sub.ticksBlock !== undefined && log.blockNumber <= log.sub.ticksBlock;
+        apply = ticksRead ? undefined : log.applyUnread;
+      }
+      if (!apply) continue;
+
+      const indices = applied.get(log.blockNumber) || new Set<number>();
+      if (indices.has(log.logIndex)) continue;
+      indices.add(log.logIndex);
+      applied.set(log.blockNumber, indices);
+
+      if (log.blockHash) {
+        this.recordBlockHash(chainId, log.blockNumber, log.blockHash);
+        this.recordHistory(log.sub, log.blockNumber, log.blockHash);
+      }
+
+      apply();
+      if (log.sub.lastLogBlock === undefined || log.blockNumber > log.sub.lastLogBlock) log.sub.lastLogBlock = log.blockNumber;
+      this.updatePool(chainId, log.sub);
+      this.lastEventBlock.set(chainId, log.blockNumber);
+      if (log.blockNumber > blockNumber) blockNumber = log.blockNumber;
+    }
+    this.lastBlock.set(chainId, blockNumber);
+
+    for (const block of applied.keys()) {
+      if (block + APPLIED_LOG_RETENTION < blockNumber) applied.delete(block);
+    }
+  }
+
+  /**
+   * New chain head: check it extends the chain we applied, close out earlier blocks,
+   * or resync if the connection dropped
+   */
+  private handleNewBlock(chainId: ChainId, block: { number: bigint; hash: Hash; parentHash: Hash }): void {
+    const blockNumber = block.number;
+    const parentHash = this.blockHashes.get(chainId)?.get(blockNumber - 1n);
+    this.recordBlockHash(chainId, blockNumber, block.hash);
+
+    if (parentHash && parentHash !== block.parentHash) {
+      void this.findForkBlock(chainId, blockNumber - 1n).then(fork => {
+        this.handleReorg(chainId, fork);
+        this.recordBlockHash(chainId, blockNumber, block.hash);
+      });
+      return;
+    }
+
+    if (this.outOfSync.has(chainId)) {
+      void this.resync(chainId, blockNumber);
+      return;
+    }
+
+    this.flushLogs(chainId, blockNumber);
+
+    // Every block before the head has been delivered, with or without pool logs
+    const lastBlock = this.lastBlock.get(chainId) ?? 0n;
+    if (blockNumber - 1n > lastBlock) this.lastBlock.set(chainId, blockNumber - 1n);
+  }
+
+  /**
+   * Subscription failure: logs may be lost from here on, so pull every pool out of
+   * the graph until the missed range has been backfilled
+   */
+  private handleConnectionError(chainId: ChainId, error: Error): void {
+    if (this.outOfSync.has(chainId)) return;
+
+    this.flushLogs(chainId);
+    this.outOfSync.add(chainId);
+
+    const detector = this.detectors.get(chainId);
+    const subs = this.subscriptions.get(chainId) || [];
+    for (const sub of subs) {
+      sub.stale = true;
+      detector?.removePool(sub.pool);
+    }
+
+    const config = CHAIN_CONFIGS[chainId];
+    logger.warn({ chain: config?.name, lastBlock: this.lastBlock.get(chainId), error: error.message }, 'Subscription lost, pools marked stale');
+  }
+
+  /**
+   * Remember a block's hash so later heads and logs can be checked against it
+   */
+  private recordBlockHash(chainId: ChainId, blockNumber: bigint, hash: Hash): void {
+    const hashes = this.blockHashes.get(chainId) || new Map<bigint, Hash>();
+    this.blockHashes.set(chainId, hashes);
+    hashes.set(blockNumber, hash);
+
+    for (const block of hashes.keys()) {
+      if (block + REORG_HISTORY_DEPTH < blockNumber) hashes.delete(block);
+    }
+  }
+
+  /**
+   * Snapshot a pool's state before the first log of a block is applied to it
+   */
+  private recordHistory(sub: PoolSubscription, blockNumber: bigint, blockHash: Hash): void {
+    const history = sub.history || [];
+    sub.history = history;
+
+    const last = history[history.length - 1];
+    if (last && last.blockNumber >= blockNumber) return;
+
+    history.push({ blockNumber, blockHash, state: clonePoolState(sub) });
+
+    while (history.length > 0 && (history[0]?.blockNumber ?? 0n) + REORG_HISTORY_DEPTH < blockNumber) {
+      history.shift();
+    }
+  }
+
+  /**
+   * Walk back from a block whose hash no longer matches the chain to the first orphaned block
+   */
+  private async findForkBlock(chainId: ChainId, mismatched: bigint): Promise<bigint> {
+    const client = this.clients.get(chainId);
+    const hashes = this.blockHashes.get(chainId);
+    if (!client || !hashes) return mismatched;
+
+    let fork = mismatched;
+    for (let block = mismatched - 1n; block + REORG_HISTORY_DEPTH > mismatched; block--) {
+      const known = hashes.get(block);
+      if (!known) break;
+      try {
+        const canonical = await client.getBlock({ blockNumber: block });
+        if (canonical.hash === known) break;
+      } catch (error) {
+        logger.debug({ chainId, block, error }, 'Failed to fetch block while locating fork');
+        break;
+      }
+      fork = block;
+    }
+    return fork;
+  }
+
+  /**
+   * Roll every pool back to its state before the fork block, drop buffered logs from
+   * orphaned blocks, notify listeners and backfill the new chain from the fork
+   */
+  private handleReorg(chainId: ChainId, forkBlock: bigint): void {
+    const pendingFork = this.reorgFork.get(chainId);
+    if (pendingFork !== undefined && pendingFork <= forkBlock) return;
+    this.reorgFork.set(chainId, forkBlock);
+
+    const lastBlock = this.lastBlock.get(chainId) ?? forkBlock;
+    const depth = lastBlock >= forkBlock ? Number(lastBlock - forkBlock) + 1 : 0;
+
+    this.pendingLogs.set(chainId, (this.pendingLogs.get(chainId) || []).filter(p => p.blockNumber < forkBlock));
+
+    const detector = this.detectors.get(chainId);
+    let rolledBack = 0;
+    for (const sub of this.subscriptions.get(chainId) || []) {
+      if (sub.refreshedBlock !== undefined && sub.refreshedBlock >= forkBlock) sub.refreshedBlock = undefined;
+      if (sub.lastLogBlock !== undefined && sub.lastLogBlock >= forkBlock) sub.lastLogBlock = undefined;
+      if (sub.ticksBlock !== undefined && sub.ticksBlock >= forkBlock) sub.ticksBlock = undefined;
+
+      const history = sub.history || [];
+      const index = history.findIndex(h => h.blockNumber >= forkBlock);
+      const snapshot = history[index];
+      if (!snapshot) continue;
+
+      sub.history = history.slice(0, index);
+      sub.stale = true;
+      detector?.removePool(sub.pool);
+      this.restoreSnapshot(chainId, sub, snapshot);
+      rolledBack++;
+    }
+
+    for (const block of this.appliedLogs.get(chainId)?.keys() || []) {
+      if (block >= forkBlock) this.appliedLogs.get(chainId)?.delete(block);
+    }
+    for (const block of this.blockHashes.get(chainId)?.keys() || []) {
+      if (block >= forkBlock) this.blockHashes.get(chainId)?.delete(block);
+    }
+
+    if (lastBlock >= forkBlock) this.lastBlock.set(chainId, forkBlock - 1n);
+    const lastEventBlock = this.lastEventBlock.get(chainId);
+    if (lastEventBlock !== undefined && lastEventBlock >= forkBlock) this.lastEventBlock.set(chainId, forkBlock - 1n);
+    this.outOfSync.add(chainId);
+
+    const config = CHAIN_CONFIGS[chainId];
+    logger.warn({ chain: config?.name, forkBlock, depth, rolledBack }, 'Chain reorg, pools rolled back');
+
+    this.onReorgCallback?.({ chain: chainId, forkBlock, depth, timestamp: Date.now() });
+
+    const client = this.clients.get(chainId);
+    void client?.getBlockNumber()
+      .then(head => this.resync(chainId, head))
+      .catch(error => logger.warn({ chainId, error }, 'Failed to start resync after reorg'));
+  }
+
+  /**
+   * Put a pool back to a recorded snapshot (edges stay out until the pool is resynced)
+   */
+  private restoreSnapshot(chainId: ChainId, sub: PoolSubscription, snapshot: PoolSnapshot): void {
+    Object.assign(sub, snapshot.state);
+    this.updatePool(chainId, sub);
+  }
+
+  /**
+   * Backfill logs missed since the last processed block, then return pools to the graph
+   */
+  private async resync(chainId: ChainId, head: bigint): Promise<void> {
+    const client = this.clients.get(chainId);
+    const subs = this.subscriptions.get(chainId);
+    if (!client || !subs || this.resyncing.has(chainId)) return;
+
+    this.resyncing.add(chainId);
+    const startedAt = Date.now();
+    const fromBlock = (this.lastBlock.get(chainId) ?? head) + 1n;
+    const reorgFork = this.reorgFork.get(chainId);
+    let synced = false;
+
+    try {
+      const logs: PoolLogUpdate[] = [];
+      for (let from = fromBlock; from <= head; from += RESYNC_BLOCK_RANGE) {
+        const to = from + RESYNC_BLOCK_RANGE - 1n < head ? from + RESYNC_BLOCK_RANGE - 1n : head;
+        logs.push(...await this.fetchMissedLogs(client, subs, from, to));
+      }
+
+      // Venues whose logs cannot be decoded generically (Curve) are re-read at the head,
+      // which then counts as a refresh: late live logs up to it are already in the state
+      const rereads = await mapInBatches(
+        subs.filter(sub => !getDexAdapter(sub.dexType).fetchLogs),
+        DISCOVERY_CONCURRENCY,
+        async sub => {
+          const apply = await getDexAdapter(sub.dexType).readState(client, sub, head);
+          return () => {
+            apply();
+            sub.refreshedBlock = head;
+          };
         }
+      );
+
+      // A reorg while fetching may have orphaned some of the fetched logs
+      if (this.reorgFork.get(chainId) !== reorgFork) {
+        throw new Error('Chain reorganized during resync');
       }
 
+      this.applyLogs(chainId, logs);
+      for (const update of rereads) update();
+      if (head > (this.lastBlock.get(chainId) ?? 0n)) this.lastBlock.set(chainId, head);
+
+      this.outOfSync.delete(chainId);
+      this.reorgFork.delete(chainId);
+      for (const sub of subs) {
+        sub.stale = false;
+        this.updatePool(chainId, sub);
+      }
+      synced = true;
+
       const config = CHAIN_CONFIGS[chainId];
-      logger.info({ chain: config?.name, subscriptions: subs.length }, 'Monitoring started');
+      logger.info({
+        chain: config?.name,
+        fromBlock,
+        toBlock: head,
+        logs: logs.length,
+        durationMs: Date.now() - startedAt,
+      }, 'Resynced');
+    } catch (error) {
+      logger.warn({ chainId, fromBlock, error }, 'Resync failed, retrying on next block');
+    } finally {
+      this.resyncing.delete(chainId);
+    }
+
+    if (synced) {
+      this.flushLogs(chainId);
+      this.checkArbitrage(chainId, this.lastBlock.get(chainId) ?? head);
     }
   }
 
   /**
-   * Update reserves and graph edges for V2 pools
+   * Fetch and decode state-changing logs for monitored pools through their adapters
    */
-  private updateReserves(
-    chainId: ChainId,
-    sub: PoolSubscription,
-    reserve0: bigint,
-    reserve1: bigint
-  ): void {
-    const key = `${chainId}-${sub.pool}`;
-    
-    this.reserves.set(key, {
-      pool: sub.pool,
-      dex: sub.dex,
-      token0: sub.token0,
-      token1: sub.token1,
-      reserve0,
-      reserve1,
-      fee: sub.fee,
-      timestamp: Date.now(),
+  private async fetchMissedLogs(
+    client: PublicClient,
+    subs: PoolSubscription[],
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<PoolLogUpdate[]> {
+    const logs = await Promise.all(Array.from(this.groupByDexType(subs), ([dexType, pools]) =>
+      getDexAdapter(dexType).fetchLogs?.(client, pools, fromBlock, toBlock) ?? Promise.resolve([])
+    ));
+    return logs.flat();
+  }
+
+  /**
+   * Sync state for monitoring: last processed block, last block with a pool log,
+   * and how many pools are currently excluded as stale
+   */
+  getSyncStatus(chainId: ChainId): {
+    inSync: boolean;
+    lastBlock?: bigint;
+    lastEventBlock?: bigint;
+    stalePools: number;
+  } {
+    const subs = this.subscriptions.get(chainId) || [];
+    return {
+      inSync: !this.outOfSync.has(chainId),
+      lastBlock: this.lastBlock.get(chainId),
+      lastEventBlock: this.lastEventBlock.get(chainId),
+      stalePools: subs.filter(sub => sub.stale).length,
+    };
+  }
+
+  /**
+   * Re-read on-chain state for every monitored pool on every chain
+   */
+  private async refreshAll(): Promise<void> {
+    for (const chainId of this.enabledChains) {
+      try {
+        await this.refreshPools(chainId);
+      } catch (error) {
+        logger.warn({ chainId, error }, 'Pool refresh failed');
+      }
+    }
+  }
+
+  /**
+   * Batch-refresh every pool's on-chain state (reserves, slot0 and liquidity, balances)
+   * at a single block, then apply them together and run detection once
+   */
+  private async refreshPools(chainId: ChainId): Promise<void> {
+    const client = this.clients.get(chainId);
+    const subs = this.subscriptions.get(chainId);
+    if (!client || !subs || this.outOfSync.has(chainId)) return;
+
+    const startedAt = Date.now();
+    await Promise.all([
+      this.tokenRegistries.get(chainId)?.refreshPrices(getPriceFeed()),
+      this.refreshFlashLiquidity(chainId),
+    ]);
+    const tokens = this.tokenRegistries.get(chainId);
+    if (tokens) this.detectors.get(chainId)?.setTokens(tokens.snapshot());
+    const blockNumber = await client.getBlockNumber();
+    const updates: (() => void)[] = [];
+    let failed = 0;
+
+    await mapInBatches(subs, DISCOVERY_CONCURRENCY, async (sub) => {
+      try {
+        const apply = await getDexAdapter(sub.dexType).readState(client, sub, blockNumber);
+        updates.push(() => {
+          // Logs after the read block were applied while reading; the pool is already newer
+          if (sub.lastLogBlock !== undefined && sub.lastLogBlock > blockNumber) return;
+          apply();
+          sub.refreshedBlock = blockNumber;
+          this.updatePool(chainId, sub);
+        });
+      } catch (error) {
+        failed++;
+        logger.debug({ pool: sub.pool, error }, 'Failed to refresh pool');
+      }
     });
 
-    // Update graph edges
+    // A disconnect during the refresh hands the chain over to the resync
+    if (this.outOfSync.has(chainId)) return;
+
+    // Buffered logs up to the read block go first (the reads cover their price and liquidity,
+    // but not tick liquidity), newer ones stay buffered to land on top of the snapshot;
+    // any that arrive later still bring their tick liquidity
+    this.flushLogs(chainId, blockNumber + 1n);
+    for (const update of updates) update();
+
+    const lastBlock = this.lastBlock.get(chainId) ?? 0n;
+    if (blockNumber > lastBlock) this.lastBlock.set(chainId, blockNumber);
+
+    const config = CHAIN_CONFIGS[chainId];
+    logger.debug({ chain: config?.name, pools: subs.length, failed, block: blockNumber, durationMs: Date.now() - startedAt }, 'Pools refreshed');
+
+    this.checkArbitrage(chainId, blockNumber > lastBlock ? blockNumber : lastBlock);
+  }
+
+  /**
+   * Republish a pool's edges from its current state
+   * Stale pools only have their reserves recorded; they stay out of the graph until resynced
+   */
+  private updatePool(chainId: ChainId, sub: PoolSubscription): void {
+    const tokens = this.tokenRegistries.get(chainId);
+    if (!tokens) return;
+
+    const edges = getDexAdapter(sub.dexType).getEdges(sub, tokens);
+    const first = edges[0];
+    if (first) this.storeReserves(chainId, sub, first);
+
     const detector = this.detectors.get(chainId);
-    if (!detector) return;
+    if (!detector || sub.stale) return;
 
-    // Forward edge (token0 -> token1)
-    const { rate: rate01 } = ArbitrageDetector.calculateRate(
-      reserve0, reserve1, 10n ** 18n, sub.fee
-    );
-    
-    detector.addEdge({
-      from: sub.token0,
-      to: sub.token1,
-      pool: sub.pool,
-      dex: sub.dex,
-      dexType: sub.dexType,
-      router: sub.router,
-      weight: ArbitrageDetector.calculateWeight(rate01),
-      reserve0,
-      reserve1,
-      fee: sub.fee,
-    });
+    detector.addEdges(edges);
+  }
 
-    // Reverse edge (token1 -> token0)
-    const { rate: rate10 } = ArbitrageDetector.calculateRate(
-      reserve1, reserve0, 10n ** 18n, sub.fee
-    );
-    
-    detector.addEdge({
-      from: sub.token1,
-      to: sub.token0,
+  /**
+   * Record the latest reserves and decimals for a pool, from its token0 -> token1 edge
+   */
+  private storeReserves(chainId: ChainId, sub: PoolSubscription, edge: Edge): void {
+    this.reserves.set(`${chainId}-${sub.pool}`, {
       pool: sub.pool,
       dex: sub.dex,
-      dexType: sub.dexType,
-      router: sub.router,
-      weight: ArbitrageDetector.calculateWeight(rate10),
-      reserve0: reserve1,
-      reserve1: reserve0,
+      token0: sub.token0,
+      token1: sub.token1,
+      reserve0: edge.reserve0,
+      reserve1: edge.reserve1,
+      decimals0: edge.fromDecimals,
+      decimals1: edge.toDecimals,
       fee: sub.fee,
+      timestamp: Date.now(),
     });
   }
 
   /**
-   * Update V3 pool data
+   * Check for arbitrage opportunities on the chain's detection worker
+   * Live log updates only re-evaluate cycles through the pools they changed; refreshes and
+   * resyncs search the whole graph. Results arrive through onOpportunity
    */
-  private updateV3Pool(
-    chainId: ChainId,
-    sub: PoolSubscription,
-    sqrtPriceX96: bigint,
-    liquidity: bigint
-  ): void {
-    // Convert sqrtPriceX96 to approximate reserves for graph
-    // price = (sqrtPriceX96 / 2^96)^2
-    const Q96 = 2n ** 96n;
-    
-    // Simplified reserve calculation from sqrtPrice
-    // This is an approximation - real V3 quotes use tick math
-    const price = (sqrtPriceX96 * sqrtPriceX96) / (Q96 * Q96);
-    
-    // Use liquidity as proxy for reserves
-    const reserve0 = liquidity;
-    const reserve1 = (liquidity * price) / (10n ** 18n);
+  private checkArbitrage(chainId: ChainId, blockNumber: bigint, changedOnly = false): void {
+    const detector = this.detectors.get(chainId);
+    if (!detector) return;
 
-    this.updateReserves(chainId, sub, reserve0 > 0n ? reserve0 : 1n, reserve1 > 0n ? reserve1 : 1n);
+    // Cycles start from any flash-borrowable base token; each is sized by the detector
+    const baseTokens = this.tokenConfigs.get(chainId)?.baseTokens ?? [];
+    detector.detect(baseTokens, blockNumber, changedOnly);
   }
 
   /**
-   * Check for arbitrage opportunities
+   * Read how much of each base token the Balancer Vault holds, which caps flashloan sizes
    */
-  private checkArbitrage(chainId: ChainId): void {
+  private async refreshFlashLiquidity(chainId: ChainId): Promise<void> {
+    const client = this.clients.get(chainId);
     const detector = this.detectors.get(chainId);
-    if (!detector) return;
-
     const config = CHAIN_CONFIGS[chainId];
-    if (!config) return;
-
-    // Check from WETH as source
-    const weth = config.nativeToken.address;
-    const inputAmount = 10n ** 18n; // 1 WETH
+    if (!client || !detector || !config) return;
 
-    const opportunities = detector.findArbitrageOpportunities(weth, inputAmount);
+    const baseTokens = this.tokenConfigs.get(chainId)?.baseTokens ?? [];
+    await Promise.all(baseTokens.map(async token => {
+      try {
+        const balance = await client.readContract({
+          address: token,
+          abi: ERC20_ABI,
+          functionName: 'balanceOf',
+          args: [config.contracts.balancerVault],
+        });
+        detector.setFlashLiquidity(token, balance);
+      } catch (error) {
+        logger.warn({ chain: config.name, token, error }, 'Failed to read Balancer Vault balance');
+      }
+    }));
+  }
 
-    if (opportunities.length > 0 && this.onOpportunityCallback) {
-      this.onOpportunityCallback(opportunities);
-    }
+  /**
+   * Set callback for chain reorgs (opportunities from the fork block on are invalid)
+   */
+  onReorg(callback: typeof this.onReorgCallback): void {
+    this.onReorgCallback = callback;
   }
 
   /**
@@ -480,6 +953,20 @@ export class PriceMonitor {
     this.onOpportunityCallback = callback;
   }
 
+  /**
+   * Hand every chain's detector the latest calibrated gas model
+   */
+  setGasModel(snapshot: GasModelSnapshot): void {
+    for (const detector of this.detectors.values()) detector.setGasModel(snapshot);
+  }
+
+  /**
+   * Decimals of a token traded on a chain
+   */
+  getTokenDecimals(chainId: ChainId, token: Address): number | undefined {
+    return this.tokenRegistries.get(chainId)?.getDecimals(token);
+  }
+
   /**
    * Get current reserves for a pool
    */
@@ -504,11 +991,26 @@ export class PriceMonitor {
    * Stop monitoring
    */
   stop(): void {
-    for (const subs of this.subscriptions.values()) {
-      for (const sub of subs) {
-        sub.unwatch?.();
-      }
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    for (const timer of this.flushTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.flushTimers.clear();
+    for (const unwatch of this.blockWatchers.values()) {
+      unwatch();
+    }
+    this.blockWatchers.clear();
+    for (const { unwatch } of this.logSubscriptions.values()) {
+      unwatch();
+    }
+    this.logSubscriptions.clear();
+    for (const detector of this.detectors.values()) {
+      void detector.terminate();
     }
+    this.detectors.clear();
     logger.info('Price monitoring stopped');
   }
 }
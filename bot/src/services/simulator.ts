@@ -9,7 +9,8 @@ import {
 } from 'viem';
 import { mainnet, arbitrum, base, optimism } from 'viem/chains';
 import type { ArbitrageOpportunity, ChainId, SimulationResult } from '../types/index.js';
-import { CHAIN_CONFIGS } from '../config/chains.js';
+import { CHAIN_CONFIGS, getArbitrageContract } from '../config/chains.js';
+import { toContractSwaps } from '../utils/swap-steps.js';
 import pino from 'pino';
 
 const logger = pino({ name: 'simulator' });
@@ -22,7 +23,7 @@ const chainMap = {
 } as const;
 
 const ARBITRAGE_ABI = parseAbi([
-  'function executeArbitrage((address flashToken, uint256 flashAmount, (address router, address tokenIn, address tokenOut, uint256 amountIn, bytes data, uint8 dexType)[] swaps, uint256 minProfit) params)',
+  'function executeArbitrage((address flashToken, uint256 flashAmount, (address router, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOutMin, bytes data, uint8 dexType)[] swaps, uint256 minProfit) params)',
 ]);
 
 const ERC20_ABI = parseAbi([
@@ -88,6 +89,7 @@ export class TradeSimulator {
     try {
       // Build calldata
       const calldata = this.encodeArbitrageCall(opportunity);
+      const contract = getArbitrageContract(config, opportunity.flashloanProvider);
       
       logs.push(`Simulating on ${config.name}...`);
       logs.push(`Flash amount: ${opportunity.inputAmount.toString()}`);
@@ -97,12 +99,12 @@ export class TradeSimulator {
       const balanceBefore = await this.getTokenBalance(
         opportunity.chain,
         opportunity.inputToken,
-        config.contracts.arbitrage
+        contract
       );
 
       // Simulate the transaction
       const result = await client.call({
-        to: config.contracts.arbitrage,
+        to: contract,
         data: calldata,
         account: executorAddress,
         blockNumber: options.blockNumber,
@@ -113,12 +115,12 @@ export class TradeSimulator {
       const balanceAfter = await this.getTokenBalance(
         opportunity.chain,
         opportunity.inputToken,
-        config.contracts.arbitrage
+        contract
       );
 
       // Estimate gas
       const gasEstimate = await client.estimateGas({
-        to: config.contracts.arbitrage,
+        to: contract,
         data: calldata,
         account: executorAddress,
       });
@@ -218,9 +220,10 @@ export class TradeSimulator {
     try {
       // Quick gas estimate
       const calldata = this.encodeArbitrageCall(opportunity);
+      const contract = getArbitrageContract(config, opportunity.flashloanProvider);
       
       const gasEstimate = await client.estimateGas({
-        to: config.contracts.arbitrage,
+        to: contract,
         data: calldata,
         account: executorAddress,
       });
@@ -273,15 +276,8 @@ export class TradeSimulator {
       args: [{
         flashToken: opportunity.inputToken,
         flashAmount: opportunity.inputAmount,
-        swaps: opportunity.path.map(step => ({
-          router: step.router,
-          tokenIn: step.tokenIn,
-          tokenOut: step.tokenOut,
-          amountIn: step.amountIn,
-          data: step.data,
-          dexType: step.dexType,
-        })),
-        minProfit: 0n, // For simulation, accept any outcome
+        swaps: toContractSwaps(opportunity.path),
+        minProfit: 0n, // Accept any profit (per-swap floors still apply); the caller judges it
       }],
     });
   }
@@ -306,6 +302,7 @@ export class TradeSimulator {
 
     // Check for custom error selectors
     if (error.includes('InsufficientProfit')) return 'Insufficient profit';
+    if (error.includes('InsufficientOutput')) return 'Swap output below its minimum';
     if (error.includes('RouterNotApproved')) return 'Router not approved';
     if (error.includes('MaxLossExceeded')) return 'Max loss exceeded';
     if (error.includes('Paused')) return 'Contract paused';
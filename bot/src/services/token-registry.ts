@@ -0,0 +1,118 @@
+import { parseAbiItem, type Address, type PublicClient } from 'viem';
+import type { ChainTokenConfig } from '../types/index.js';
+import type { TokenContext } from '../adapters/index.js';
+import type { PriceFeed } from '../utils/price-feed.js';
+import pino from 'pino';
+
+const logger = pino({ name: 'token-registry' });
+
+const ERC20_ABI = [
+  parseAbiItem('function decimals() view returns (uint8)'),
+] as const;
+
+// USD notional of the swap used to price graph edges
+const PROBE_NOTIONAL_USD = Number(process.env.PROBE_NOTIONAL_USD) || 1000;
+
+// Assumed for tokens whose decimals() cannot be read
+const DEFAULT_DECIMALS = 18;
+
+/**
+ * Copy of a registry's decimals and prices, e.g. for a detection worker's registry
+ */
+export interface TokenSnapshot {
+  decimals: Map<string, number>;
+  prices: Map<string, number>;
+}
+
+/**
+ * Decimals and USD prices of the tokens traded on one chain
+ * Seeded from the chain's token config; tokens of discovered pools are read on-chain
+ */
+export class TokenRegistry implements TokenContext {
+  private decimals: Map<string, number> = new Map();
+  private prices: Map<string, number> = new Map(); // USD per whole token
+
+  constructor(config: ChainTokenConfig) {
+    for (const token of config.tokens) {
+      this.decimals.set(token.address.toLowerCase(), token.decimals);
+    }
+  }
+
+  /**
+   * Read decimals() for tokens not yet known
+   */
+  async load(client: PublicClient, tokens: Address[]): Promise<void> {
+    const unknown = Array.from(new Set(tokens.map(t => t.toLowerCase()))).filter(t => !this.decimals.has(t));
+
+    await Promise.all(unknown.map(async (token) => {
+      try {
+        const decimals = await client.readContract({ address: token as Address, abi: ERC20_ABI, functionName: 'decimals' });
+        this.decimals.set(token, decimals);
+      } catch (error) {
+        logger.debug({ token, error }, 'Failed to read decimals, assuming 18');
+        this.decimals.set(token, DEFAULT_DECIMALS);
+      }
+    }));
+  }
+
+  /**
+   * Refresh USD prices of tokens with a price feed; others keep their last price (if any)
+   */
+  async refreshPrices(priceFeed: PriceFeed): Promise<void> {
+    const tokens = Array.from(this.decimals.keys()).filter(t => priceFeed.hasTokenFeed(t as Address));
+    await Promise.all(tokens.map(async (token) => {
+      const price = await priceFeed.getTokenPrice(token as Address);
+      if (price !== null && price > 0) this.prices.set(token, price);
+    }));
+  }
+
+  snapshot(): TokenSnapshot {
+    return { decimals: new Map(this.decimals), prices: new Map(this.prices) };
+  }
+
+  /**
+   * Replace decimals and prices with a snapshot taken from another registry
+   */
+  restore(snapshot: TokenSnapshot): void {
+    this.decimals = new Map(snapshot.decimals);
+    this.prices = new Map(snapshot.prices);
+  }
+
+  getDecimals(token: Address): number {
+    return this.decimals.get(token.toLowerCase()) ?? DEFAULT_DECIMALS;
+  }
+
+  /**
+   * USD per whole token, if known
+   */
+  getPrice(token: Address): number | undefined {
+    return this.prices.get(token.toLowerCase());
+  }
+
+  /**
+   * Input amount (raw units) for pricing an edge: PROBE_NOTIONAL_USD worth of the token,
+   * or one whole token when it has no price
+   */
+  getProbeAmount(token: Address): bigint {
+    return this.fromUsd(token, PROBE_NOTIONAL_USD) ?? 10n ** BigInt(this.getDecimals(token));
+  }
+
+  /**
+   * USD value of a raw token amount, if the token has a price
+   */
+  toUsd(token: Address, amount: bigint): number | undefined {
+    const price = this.getPrice(token);
+    if (price === undefined) return undefined;
+    return (Number(amount) / 10 ** this.getDecimals(token)) * price;
+  }
+
+  /**
+   * Raw token amount worth a USD value, if the token has a price
+   */
+  fromUsd(token: Address, usd: number): bigint | undefined {
+    const price = this.getPrice(token);
+    if (price === undefined) return undefined;
+    const amount = BigInt(Math.floor((usd / price) * 10 ** this.getDecimals(token)));
+    return amount > 0n ? amount : 1n;
+  }
+}
@@ -11,9 +11,12 @@ export interface ChainConfig {
   wsUrl: string;
   flashbotsRpc?: string;
   blockTime: number;
+  maxCycleHops?: number; // Longest arbitrage cycle enumerated (defaults to MAX_CYCLE_HOPS)
+  l1DataFee?: 'arbitrum' | 'opStack'; // How a rollup charges for posting its transactions to L1
   nativeToken: TokenInfo;
   contracts: {
     arbitrage: Address;
+    aaveArbitrage?: Address; // AaveFlashloanArbitrage deployment, needed for paths through Balancer pools
     balancerVault: Address;
   };
   dexes: DexConfig[];
@@ -26,6 +29,10 @@ export enum DexType {
   UniswapV3 = 1,
   Curve = 2,
   Velodrome = 3,
+  UniswapV4 = 4,
+  Balancer = 5,
+  CamelotV2 = 6, // Uniswap V2 fork with per-direction dynamic fees
+  Algebra = 7, // Concentrated liquidity with dynamic (per-direction) fees, e.g. Camelot V3
 }
 
 export interface DexConfig {
@@ -34,15 +41,30 @@ export interface DexConfig {
   router: Address;
   factory: Address;
   quoter?: Address;
+  stateView?: Address; // For Uniswap V4: lens over PoolManager storage
+  deployBlock?: bigint; // Factory deployment block, where discovery backfill starts
   pools: PoolInfo[];
 }
 
 export interface PoolInfo {
-  address: Address;
+  address: Address; // Pool contract, or the 32-byte PoolId for Uniswap V4
   token0: Address;
   token1: Address;
   fee?: number; // For V3 pools (basis points)
+  tickSpacing?: number; // For V3 pools
   stable?: boolean; // For Velodrome/Aerodrome
+  coins?: Address[]; // For Curve and Balancer pools (token0/token1 are the first two coins)
+  basePool?: Address; // For Curve meta pools
+  hooks?: Address; // For Uniswap V4
+  dynamicFee?: boolean; // For Uniswap V4 pools whose hooks set the LP fee
+  poolId?: Hash; // For Balancer pools (Vault PoolId)
+}
+
+export interface RegisteredPool extends PoolInfo {
+  dex: string;
+  dexType: DexType;
+  factory: Address;
+  createdBlock: bigint;
 }
 
 // ============ Token Information ============
@@ -54,6 +76,18 @@ export interface TokenInfo {
   name: string;
 }
 
+export interface TokenPairConfig {
+  tokens: [Address, Address];
+  fees?: number[]; // Fee tiers to monitor (basis points); all tiers if omitted
+}
+
+export interface ChainTokenConfig {
+  chainId: ChainId;
+  tokens: TokenInfo[];
+  pairs: TokenPairConfig[];
+  baseTokens: Address[]; // Flash-borrowable cycle start tokens, in preference order
+}
+
 // ============ Price & Reserves ============
 
 export interface PoolReserves {
@@ -63,10 +97,67 @@ export interface PoolReserves {
   token1: Address;
   reserve0: bigint;
   reserve1: bigint;
+  decimals0: number;
+  decimals1: number;
   fee: number;
   timestamp: number;
 }
 
+// ============ Curve State ============
+
+export interface CurvePoolState {
+  coins: Address[];
+  balances: bigint[];
+  rates: bigint[]; // 10^(36 - decimals), or the base pool virtual price for a meta pool's LP coin
+  amp: bigint; // A * aPrecision
+  aPrecision: bigint; // 100 for newer pools, 1 for legacy pools such as 3Pool
+  fee: bigint; // Swap fee with 1e10 denominator
+  basePool?: Address; // For meta pools
+}
+
+// ============ Balancer State ============
+
+export interface BalancerPoolState {
+  poolId: Hash;
+  tokens: Address[];
+  balances: bigint[]; // Raw token units, as held by the Vault
+  scalingFactors: bigint[]; // 18-decimal fixed point, including decimals and token rates
+  swapFee: bigint; // 18-decimal fixed point
+  weights?: bigint[]; // Weighted pools: normalized weights (18-decimal)
+  amp?: bigint; // Stable pools: A * 1000
+  bptIndex?: number; // Composable stable pools list their own BPT among the tokens
+}
+
+// ============ Uniswap V3 State ============
+
+export interface V3TickInfo {
+  liquidityGross: bigint;
+  liquidityNet: bigint;
+}
+
+export interface V3PoolState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  fee: number; // Hundredths of a bip (e.g. 3000 = 0.3%)
+  feeOneForZero?: number; // Algebra: fee for token1 -> token0 swaps when it differs from `fee`
+  tickSpacing: number;
+  ticks: Map<number, V3TickInfo>;
+  tickBitmap: Map<number, bigint>;
+  minWord: number; // Lowest bitmap word loaded into the snapshot
+  maxWord: number; // Highest bitmap word loaded into the snapshot
+}
+
+// ============ Uniswap V4 State ============
+
+export interface V4PoolKey {
+  currency0: Address;
+  currency1: Address;
+  fee: number; // Hundredths of a bip, or the dynamic fee flag (0x800000)
+  tickSpacing: number;
+  hooks: Address;
+}
+
 export interface PriceQuote {
   dex: string;
   pool: Address;
@@ -88,21 +179,40 @@ export interface ArbitrageOpportunity {
   inputAmount: bigint;
   expectedOutput: bigint;
   expectedProfit: bigint;
+  minProfit: bigint; // Least profit the contract accepts: expected profit less the allowed shortfall
   profitUsd: number;
   gasEstimate: bigint;
   gasCostUsd: number;
   netProfitUsd: number;
+  priceSource?: string; // Price the input token was valued at, e.g. 'chainlink:ETH/USD'
+  priceAgeMs?: number; // Age of that price when the opportunity was valued, if the source reports it
   confidence: number;
+  flashloanProvider: FlashloanProvider;
+  sizeCurve: SizePoint[]; // Profit around the chosen input size, for inspection
+  conflictsWith?: string[]; // Selected opportunities sharing a pool with this one, which was dropped
+  blockNumber: bigint; // Block whose state the opportunity was computed against
   timestamp: number;
   expiresAt: number;
 }
 
+// Net profit (input token, after the flashloan fee) of a cycle at one input size
+export interface SizePoint {
+  amountIn: bigint;
+  profit: bigint;
+}
+
+// The Balancer Vault cannot be swapped through while it is lending (both are nonReentrant),
+// so paths with a Balancer hop borrow from Aave instead
+export type FlashloanProvider = 'balancer' | 'aave';
+
 export interface SwapStep {
   router: Address;
   tokenIn: Address;
   tokenOut: Address;
   amountIn: bigint;
   expectedAmountOut: bigint;
+  amountOutMin: bigint; // Least this swap may return before the contract reverts the path
+  ticksCrossed?: number; // Initialized ticks crossed, for concentrated liquidity venues
   pool: Address;
   dexType: DexType;
   data: Hex;
@@ -141,6 +251,13 @@ export interface Edge {
   reserve0: bigint;
   reserve1: bigint;
   fee: number;
+  v3?: V3PoolState; // Tick snapshot for exact V3 (and V4) quoting
+  poolKey?: V4PoolKey; // For Uniswap V4: identifies the pool to the PoolManager
+  curve?: CurvePoolState; // Balances and amplification for StableSwap quoting
+  balancer?: BalancerPoolState; // Balances, weights or amplification for Balancer quoting
+  stable?: boolean; // For Velodrome/Aerodrome: x³y+y³x curve instead of x·y
+  fromDecimals: number;
+  toDecimals: number;
 }
 
 export interface Graph {
@@ -184,7 +301,7 @@ export interface TradeHistory {
 export interface BotConfig {
   minProfitUsd: number;
   maxGasPriceGwei: number;
-  maxSlippageBps: number;
+  maxProfitShortfallBps: number; // Share of the expected profit a trade may come in short before it reverts
   simulateBeforeExecute: boolean;
   dryRun: boolean;
   maxConcurrentTrades: number;
@@ -196,11 +313,19 @@ export interface BotConfig {
 
 // ============ Events ============
 
+export interface ReorgEvent {
+  chain: ChainId;
+  forkBlock: bigint; // First orphaned block; state from here on was rolled back
+  depth: number;
+  timestamp: number;
+}
+
 export type BotEvent =
   | { type: 'OPPORTUNITY_FOUND'; data: ArbitrageOpportunity }
   | { type: 'TRADE_EXECUTED'; data: ExecutionResult }
   | { type: 'TRADE_FAILED'; data: { error: string; opportunity: ArbitrageOpportunity } }
   | { type: 'PRICE_UPDATE'; data: { chain: ChainId; pool: Address; reserves: PoolReserves } }
+  | { type: 'REORG'; data: ReorgEvent }
   | { type: 'CIRCUIT_BREAKER'; data: { reason: string; chain: ChainId } }
   | { type: 'BOT_STARTED'; data: { chains: ChainId[] } }
   | { type: 'BOT_STOPPED'; data: { reason: string } };
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { BalancerPoolState } from '../types/index.js';
+import { getAmountOut } from './balancer-math.js';
+
+// Expected values are what the pools' onSwap (GIVEN_IN) returns for the same state: fee taken
+// from the input, amounts scaled, then WeightedMath / StableMath._calcOutGivenIn
+
+const POOL_ID = `0x${'00'.repeat(32)}` as const;
+const TOKENS = [
+  '0x0000000000000000000000000000000000000001',
+  '0x0000000000000000000000000000000000000002',
+  '0x0000000000000000000000000000000000000003',
+  '0x0000000000000000000000000000000000000004',
+] as const;
+
+// 50/50 WETH/USDC, 0.3% fee
+const weighted5050: BalancerPoolState = {
+  poolId: POOL_ID,
+  tokens: TOKENS.slice(0, 2),
+  balances: [1000n * 10n ** 18n, 3_000_000n * 10n ** 6n],
+  scalingFactors: [10n ** 18n, 10n ** 30n],
+  swapFee: 3n * 10n ** 15n,
+  weights: [5n * 10n ** 17n, 5n * 10n ** 17n],
+};
+
+// 80/20 BAL/WETH, 1% fee
+const weighted8020: BalancerPoolState = {
+  poolId: POOL_ID,
+  tokens: TOKENS.slice(0, 2),
+  balances: [10_000_000n * 10n ** 18n, 5000n * 10n ** 18n],
+  scalingFactors: [10n ** 18n, 10n ** 18n],
+  swapFee: 10n ** 16n,
+  weights: [8n * 10n ** 17n, 2n * 10n ** 17n],
+};
+
+// Composable stable DAI/BPT/USDC/USDT, A = 200, 0.01% fee; the BPT at index 1 is left out of the math
+const composableStable: BalancerPoolState = {
+  poolId: POOL_ID,
+  tokens: [...TOKENS],
+  balances: [2_000_000n * 10n ** 18n, 2n ** 111n, 1_900_000n * 10n ** 6n, 2_100_000n * 10n ** 6n],
+  scalingFactors: [10n ** 18n, 10n ** 18n, 10n ** 30n, 10n ** 30n],
+  swapFee: 10n ** 14n,
+  amp: 200_000n,
+  bptIndex: 1,
+};
+
+describe('getAmountOut', () => {
+  it.each([
+    ['50/50 WETH -> USDC', weighted5050, 0, 1, 10n * 10n ** 18n, 29614741031n],
+    ['50/50 USDC -> WETH', weighted5050, 1, 0, 10n ** 10n, 3312325372013674000n],
+    ['80/20 BAL -> WETH', weighted8020, 0, 1, 10n ** 22n, 19751091862061575000n],
+    ['stable USDC -> USDT', composableStable, 2, 3, 10n ** 11n, 100014937553n],
+    ['stable DAI -> USDC', composableStable, 0, 2, 5n * 10n ** 23n, 499097517402n],
+  ])('%s', (_, state, i, j, amountIn, expected) => {
+    expect(getAmountOut(state, i, j, amountIn)).toBe(expected);
+  });
+
+  it('matches LogExpMath within its error bound for fractional weight ratios', () => {
+    // 20 -> 80 raises to the power 0.25, which LogExpMath only approximates
+    const expected = 494938752745070000000n;
+    const amountOut = getAmountOut(weighted8020, 1, 0, 10n ** 18n);
+    const error = amountOut > expected ? amountOut - expected : expected - amountOut;
+    expect(error * 10n ** 12n).toBeLessThanOrEqual(expected);
+  });
+
+  it('rejects inputs above 30% of the balance in weighted pools', () => {
+    expect(getAmountOut(weighted5050, 0, 1, 400n * 10n ** 18n)).toBe(0n);
+  });
+
+  it('does not swap the pool token of a composable stable pool', () => {
+    expect(getAmountOut(composableStable, 1, 2, 10n ** 18n)).toBe(0n);
+  });
+});
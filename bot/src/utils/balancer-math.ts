@@ -0,0 +1,221 @@
+import type { Address } from 'viem';
+import Decimal from 'decimal.js';
+import type { BalancerPoolState } from '../types/index.js';
+
+// Swap math for Balancer V2 weighted and (composable) stable pools, ported from
+// WeightedMath.sol / StableMath.sol and the BasePool scaling and fee handling
+
+// ============ Constants ============
+
+const ONE = 10n ** 18n;
+const AMP_PRECISION = 1000n;
+const MAX_IN_RATIO = 3n * 10n ** 17n; // Weighted pools reject inputs above 30% of the balance
+const MAX_POW_RELATIVE_ERROR = 10000n; // LogExpMath error bound used by powUp (1e-14)
+const MAX_ITERATIONS = 255;
+
+const D = Decimal.clone({ precision: 50, rounding: Decimal.ROUND_DOWN });
+
+// ============ Fixed Point ============
+
+function mulDown(a: bigint, b: bigint): bigint {
+  return (a * b) / ONE;
+}
+
+function mulUp(a: bigint, b: bigint): bigint {
+  const product = a * b;
+  return product === 0n ? 0n : (product - 1n) / ONE + 1n;
+}
+
+function divDown(a: bigint, b: bigint): bigint {
+  return (a * ONE) / b;
+}
+
+function divUp(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a * ONE - 1n) / b + 1n;
+}
+
+function divUpRaw(a: bigint, b: bigint): bigint {
+  return a === 0n ? 0n : (a - 1n) / b + 1n;
+}
+
+function complement(x: bigint): bigint {
+  return x < ONE ? ONE - x : 0n;
+}
+
+/**
+ * x^y rounded up by LogExpMath's error bound, with the exact integer cases of FixedPoint.powUp
+ */
+function powUp(x: bigint, y: bigint): bigint {
+  if (y === ONE) return x;
+  if (y === 2n * ONE) return mulUp(x, x);
+  if (y === 4n * ONE) {
+    const square = mulUp(x, x);
+    return mulUp(square, square);
+  }
+
+  const raw = BigInt(
+    new D(x.toString()).div(ONE.toString())
+      .pow(new D(y.toString()).div(ONE.toString()))
+      .mul(ONE.toString())
+      .floor()
+      .toFixed()
+  );
+  return raw + mulUp(raw, MAX_POW_RELATIVE_ERROR) + 1n;
+}
+
+// ============ Weighted Math ============
+
+function weightedOutGivenIn(
+  balanceIn: bigint,
+  weightIn: bigint,
+  balanceOut: bigint,
+  weightOut: bigint,
+  amountIn: bigint
+): bigint {
+  if (amountIn > mulDown(balanceIn, MAX_IN_RATIO)) return 0n;
+
+  const base = divUp(balanceIn, balanceIn + amountIn);
+  const exponent = divDown(weightIn, weightOut);
+  const power = powUp(base, exponent);
+
+  return mulDown(balanceOut, complement(power));
+}
+
+// ============ Stable Math ============
+
+/**
+ * Solve the StableSwap invariant for upscaled balances
+ */
+function calculateInvariant(amp: bigint, balances: bigint[]): bigint {
+  const n = BigInt(balances.length);
+  const sum = balances.reduce((acc, b) => acc + b, 0n);
+  if (sum === 0n) return 0n;
+
+  const ampTimesTotal = amp * n;
+  let invariant = sum;
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let dP = invariant;
+    for (const balance of balances) {
+      dP = (dP * invariant) / (balance * n);
+    }
+
+    const prev = invariant;
+    invariant =
+      (((ampTimesTotal * sum) / AMP_PRECISION + dP * n) * invariant) /
+      (((ampTimesTotal - AMP_PRECISION) * invariant) / AMP_PRECISION + (n + 1n) * dP);
+
+    if (invariant > prev ? invariant - prev <= 1n : prev - invariant <= 1n) {
+      return invariant;
+    }
+  }
+
+  throw new Error('Stable invariant did not converge');
+}
+
+/**
+ * Balance of one token that keeps the invariant, given all other balances
+ */
+function getTokenBalance(amp: bigint, balances: bigint[], invariant: bigint, tokenIndex: number): bigint {
+  const n = BigInt(balances.length);
+  const ampTimesTotal = amp * n;
+
+  let sum = balances[0] ?? 0n;
+  let pD = sum * n;
+  for (let j = 1; j < balances.length; j++) {
+    const balance = balances[j] ?? 0n;
+    pD = (pD * balance * n) / invariant;
+    sum += balance;
+  }
+  sum -= balances[tokenIndex] ?? 0n;
+
+  const inv2 = invariant * invariant;
+  const c = divUpRaw(inv2, ampTimesTotal * pD) * AMP_PRECISION * (balances[tokenIndex] ?? 0n);
+  const b = sum + (invariant / ampTimesTotal) * AMP_PRECISION;
+
+  let tokenBalance = divUpRaw(inv2 + c, invariant + b);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const prev = tokenBalance;
+    tokenBalance = divUpRaw(tokenBalance * tokenBalance + c, tokenBalance * 2n + b - invariant);
+
+    if (tokenBalance > prev ? tokenBalance - prev <= 1n : prev - tokenBalance <= 1n) {
+      return tokenBalance;
+    }
+  }
+
+  throw new Error('Stable balance did not converge');
+}
+
+function stableOutGivenIn(amp: bigint, balances: bigint[], i: number, j: number, amountIn: bigint): bigint {
+  const invariant = calculateInvariant(amp, balances);
+  const after = balances.map((b, k) => (k === i ? b + amountIn : b));
+  const finalBalanceOut = getTokenBalance(amp, after, invariant, j);
+  return (balances[j] ?? 0n) - finalBalanceOut - 1n;
+}
+
+// ============ Quoting ============
+
+/**
+ * Output of swapping amountIn of token i for token j, matching the pool's onSwap (GIVEN_IN)
+ * The fee is taken from the raw input, then amounts are upscaled to 18 decimals (and token rates)
+ */
+export function getAmountOut(state: BalancerPoolState, i: number, j: number, amountIn: bigint): bigint {
+  const scalingIn = state.scalingFactors[i];
+  const scalingOut = state.scalingFactors[j];
+  const balanceOut = state.balances[j];
+  if (scalingIn === undefined || scalingOut === undefined || balanceOut === undefined) return 0n;
+  if (amountIn <= 0n || i === j || i === state.bptIndex || j === state.bptIndex) return 0n;
+
+  const balances = state.balances.map((balance, k) => mulDown(balance, state.scalingFactors[k] ?? ONE));
+  if (balances.some((b, k) => b === 0n && k !== state.bptIndex)) return 0n;
+
+  const amountInAfterFee = amountIn - mulUp(amountIn, state.swapFee);
+  const scaledIn = mulDown(amountInAfterFee, scalingIn);
+
+  let scaledOut: bigint;
+  if (state.weights) {
+    const weightIn = state.weights[i];
+    const weightOut = state.weights[j];
+    if (!weightIn || !weightOut) return 0n;
+    scaledOut = weightedOutGivenIn(balances[i] ?? 0n, weightIn, balances[j] ?? 0n, weightOut, scaledIn);
+  } else if (state.amp !== undefined) {
+    // Composable stable pools keep their own BPT out of the invariant
+    const indices = balances.map((_, k) => k).filter(k => k !== state.bptIndex);
+    scaledOut = stableOutGivenIn(
+      state.amp,
+      indices.map(k => balances[k] ?? 0n),
+      indices.indexOf(i),
+      indices.indexOf(j),
+      scaledIn
+    );
+  } else {
+    return 0n;
+  }
+
+  if (scaledOut <= 0n) return 0n;
+  const amountOut = divDown(scaledOut, scalingOut);
+
+  // A swap can never drain more than the pool holds
+  return amountOut < balanceOut ? amountOut : 0n;
+}
+
+/**
+ * Exchange rate (raw token units) for a probe-sized swap (one whole token by default), used for graph weights
+ */
+export function getSpotRate(state: BalancerPoolState, i: number, j: number, amountIn?: bigint): number {
+  const scalingIn = state.scalingFactors[i];
+  if (!scalingIn) return 0;
+
+  const dx = amountIn ?? (ONE * ONE) / scalingIn; // One whole token i by default
+  if (dx <= 0n) return 0;
+  const dy = getAmountOut(state, i, j, dx);
+  return Number(dy) / Number(dx);
+}
+
+/**
+ * Index of a token in the pool's token list, or -1 if not present
+ */
+export function getTokenIndex(state: BalancerPoolState, token: Address): number {
+  const needle = token.toLowerCase();
+  return state.tokens.findIndex(t => t.toLowerCase() === needle);
+}
@@ -0,0 +1,18 @@
+/**
+ * Map over items with at most `concurrency` calls in flight
+ * Reads issued together are coalesced into Multicall3 batches by the client
+ */
+export async function mapInBatches<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = [];
+  const size = Math.max(1, concurrency);
+
+  for (let i = 0; i < items.length; i += size) {
+    results.push(...await Promise.all(items.slice(i, i + size).map(fn)));
+  }
+
+  return results;
+}
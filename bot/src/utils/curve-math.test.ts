@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { CurvePoolState } from '../types/index.js';
+import { getD, getDy, getRateForDecimals } from './curve-math.js';
+
+// Expected values are what StableSwap's get_D and get_dy return for the same pool state
+
+const COINS = [
+  '0x0000000000000000000000000000000000000001',
+  '0x0000000000000000000000000000000000000002',
+  '0x0000000000000000000000000000000000000003',
+] as const;
+
+// 3pool layout (DAI/USDC/USDT): raw A = 2000, 0.01% fee
+const threePool: CurvePoolState = {
+  coins: [...COINS],
+  balances: [50_000_000n * 10n ** 18n, 48_000_000n * 10n ** 6n, 52_000_000n * 10n ** 6n],
+  rates: [getRateForDecimals(18), getRateForDecimals(6), getRateForDecimals(6)],
+  amp: 2000n,
+  aPrecision: 1n,
+  fee: 1_000_000n,
+};
+
+// Factory plain pool, A = 50 with A_PRECISION = 100, 0.04% fee
+const plainPool: CurvePoolState = {
+  coins: COINS.slice(0, 2),
+  balances: [1_000_000n * 10n ** 18n, 1_600_000n * 10n ** 18n],
+  rates: [getRateForDecimals(18), getRateForDecimals(18)],
+  amp: 5000n,
+  aPrecision: 100n,
+  fee: 4_000_000n,
+};
+
+// Meta pool: a 6-decimal coin against a base pool LP token at its virtual price
+const metaPool: CurvePoolState = {
+  coins: COINS.slice(0, 2),
+  balances: [3_000_000n * 10n ** 6n, 2_900_000n * 10n ** 18n],
+  rates: [getRateForDecimals(6), 1_023_456_789_012_345_678n],
+  amp: 10000n,
+  aPrecision: 100n,
+  fee: 4_000_000n,
+};
+
+describe('getD', () => {
+  it('solves the invariant of normalized balances', () => {
+    const xp = [50_000_000n * 10n ** 18n, 48_000_000n * 10n ** 18n, 52_000_000n * 10n ** 18n];
+    expect(getD(xp, 2000n, 1n)).toBe(149999959955962226168694079n);
+  });
+
+  it('is the sum of balanced pools', () => {
+    expect(getD([10n ** 24n, 10n ** 24n], 5000n, 100n)).toBe(2n * 10n ** 24n);
+  });
+});
+
+describe('getDy', () => {
+  it.each([
+    ['3pool', threePool, 1, 0, 10n ** 12n, 999910422636612328183121n],
+    ['3pool', threePool, 0, 2, 5n * 10n ** 24n, 4999354792317n],
+    ['3pool', threePool, 2, 1, 10n ** 9n, 999859886n],
+    ['plain', plainPool, 0, 1, 10n ** 22n, 10094988324518481154124n],
+    ['plain', plainPool, 1, 0, 10n ** 23n, 98744782934083763531577n],
+    ['meta', metaPool, 0, 1, 10n ** 11n, 97626181940790939222331n],
+    ['meta', metaPool, 1, 0, 10n ** 23n, 102280840076n],
+  ])('%s: coin %i -> %i', (_, state, i, j, dx, expected) => {
+    expect(getDy(state, i, j, dx)).toBe(expected);
+  });
+
+  it('returns 0 for an empty coin balance', () => {
+    expect(getDy({ ...plainPool, balances: [10n ** 24n, 0n] }, 0, 1, 10n ** 18n)).toBe(0n);
+  });
+});
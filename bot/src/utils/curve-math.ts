@@ -0,0 +1,139 @@
+import type { Address } from 'viem';
+import type { CurvePoolState } from '../types/index.js';
+
+// ============ Constants ============
+
+const PRECISION = 10n ** 18n;
+const FEE_DENOMINATOR = 10n ** 10n;
+const MAX_ITERATIONS = 255;
+
+// ============ StableSwap Invariant ============
+
+function abs(x: bigint): bigint {
+  return x < 0n ? -x : x;
+}
+
+/**
+ * Solve the StableSwap invariant D for normalized balances
+ */
+export function getD(xp: bigint[], amp: bigint, aPrecision: bigint): bigint {
+  const n = BigInt(xp.length);
+  const sum = xp.reduce((acc, x) => acc + x, 0n);
+  if (sum === 0n) return 0n;
+
+  const ann = amp * n;
+  let d = sum;
+
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    let dP = d;
+    for (const x of xp) {
+      dP = (dP * d) / (x * n);
+    }
+
+    const dPrev = d;
+    d = (((ann * sum) / aPrecision + dP * n) * d) /
+      (((ann - aPrecision) * d) / aPrecision + (n + 1n) * dP);
+
+    if (abs(d - dPrev) <= 1n) return d;
+  }
+
+  throw new Error('StableSwap D did not converge');
+}
+
+/**
+ * Solve for the new normalized balance of coin j after coin i is set to x
+ */
+export function getY(
+  i: number,
+  j: number,
+  x: bigint,
+  xp: bigint[],
+  amp: bigint,
+  aPrecision: bigint
+): bigint {
+  const n = BigInt(xp.length);
+  const d = getD(xp, amp, aPrecision);
+  const ann = amp * n;
+
+  let c = d;
+  let sum = 0n;
+
+  for (let k = 0; k < xp.length; k++) {
+    let xk: bigint;
+    if (k === i) {
+      xk = x;
+    } else if (k !== j) {
+      xk = xp[k] ?? 0n;
+    } else {
+      continue;
+    }
+    sum += xk;
+    c = (c * d) / (xk * n);
+  }
+
+  c = (c * d * aPrecision) / (ann * n);
+  const b = sum + (d * aPrecision) / ann;
+
+  let y = d;
+  for (let k = 0; k < MAX_ITERATIONS; k++) {
+    const yPrev = y;
+    y = (y * y + c) / (2n * y + b - d);
+    if (abs(y - yPrev) <= 1n) return y;
+  }
+
+  throw new Error('StableSwap y did not converge');
+}
+
+// ============ Quoting ============
+
+/**
+ * Output of exchanging dx of coin i for coin j, matching the pool's get_dy
+ */
+export function getDy(state: CurvePoolState, i: number, j: number, dx: bigint): bigint {
+  const rateI = state.rates[i];
+  const rateJ = state.rates[j];
+  const balanceJ = state.balances[j];
+  if (rateI === undefined || rateJ === undefined || balanceJ === undefined || dx <= 0n) return 0n;
+
+  const xp = state.balances.map((balance, k) => (balance * (state.rates[k] ?? 0n)) / PRECISION);
+  if (xp.some(x => x === 0n)) return 0n;
+
+  const x = (xp[i] ?? 0n) + (dx * rateI) / PRECISION;
+  const y = getY(i, j, x, xp, state.amp, state.aPrecision);
+  const dy = (xp[j] ?? 0n) - y - 1n;
+  if (dy <= 0n) return 0n;
+
+  const fee = (state.fee * dy) / FEE_DENOMINATOR;
+  const amountOut = ((dy - fee) * PRECISION) / rateJ;
+
+  // A swap can never drain more than the pool holds
+  return amountOut < balanceJ ? amountOut : 0n;
+}
+
+/**
+ * Exchange rate (raw token units) for a probe-sized swap (one whole token by default), used for graph weights
+ */
+export function getSpotRate(state: CurvePoolState, i: number, j: number, amountIn?: bigint): number {
+  const rateI = state.rates[i];
+  if (!rateI) return 0;
+
+  const dx = amountIn ?? (PRECISION * PRECISION) / rateI; // One whole coin i by default
+  if (dx <= 0n) return 0;
+  const dy = getDy(state, i, j, dx);
+  return Number(dy) / Number(dx);
+}
+
+/**
+ * Index of a token in the pool's coin list, or -1 if not present
+ */
+export function getCoinIndex(state: CurvePoolState, token: Address): number {
+  const needle = token.toLowerCase();
+  return state.coins.findIndex(c => c.toLowerCase() === needle);
+}
+
+/**
+ * Rate multiplier that normalizes a coin with the given decimals to 18 decimals
+ */
+export function getRateForDecimals(decimals: number): bigint {
+  return 10n ** BigInt(36 - decimals);
+}
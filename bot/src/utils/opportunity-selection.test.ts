@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'viem';
+import type { ArbitrageOpportunity, ChainId } from '../types/index.js';
+import { selectOpportunities } from './opportunity-selection.js';
+
+const pool = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+
+const opportunity = (id: string, netProfitUsd: number, pools: number[], chain: ChainId = 42161): ArbitrageOpportunity => ({
+  id,
+  chain,
+  netProfitUsd,
+  confidence: 1,
+  path: pools.map(n => ({ pool: pool(n) })),
+} as ArbitrageOpportunity);
+
+const ids = (opportunities: ArbitrageOpportunity[]) => opportunities.map(o => o.id).sort();
+
+describe('selectOpportunities', () => {
+  it('keeps every opportunity when no pools are shared', () => {
+    const { selected, conflicting } = selectOpportunities([opportunity('a', 10, [1, 2]), opportunity('b', 5, [3, 4])]);
+    expect(ids(selected)).toEqual(['a', 'b']);
+    expect(conflicting).toEqual([]);
+  });
+
+  it('beats the greedy choice when two smaller opportunities outweigh a larger one', () => {
+    const { selected, conflicting } = selectOpportunities([
+      opportunity('a', 10, [1, 2]),
+      opportunity('b', 6, [1, 3]),
+      opportunity('c', 6, [2, 4]),
+    ]);
+    expect(ids(selected)).toEqual(['b', 'c']);
+    expect(ids(conflicting)).toEqual(['a']);
+    expect(conflicting[0]?.conflictsWith?.sort()).toEqual(['b', 'c']);
+  });
+
+  it('weights profit by confidence', () => {
+    const risky = { ...opportunity('a', 10, [1]), confidence: 0.3 };
+    const { selected } = selectOpportunities([risky, opportunity('b', 5, [1])]);
+    expect(ids(selected)).toEqual(['b']);
+  });
+
+  it('never selects unprofitable opportunities', () => {
+    const { selected, unweighted } = selectOpportunities([opportunity('a', -1, [1]), opportunity('b', 0, [2])]);
+    expect(selected).toEqual([]);
+    expect(ids(unweighted)).toEqual(['a', 'b']);
+  });
+
+  it('reports zero-confidence opportunities apart from conflicting ones', () => {
+    const unsure = { ...opportunity('a', 10, [1, 2]), confidence: 0 };
+    const { selected, conflicting, unweighted } = selectOpportunities([unsure, opportunity('b', 5, [2]), opportunity('c', 3, [2])]);
+    expect(ids(selected)).toEqual(['b']);
+    expect(ids(conflicting)).toEqual(['c']);
+    expect(ids(unweighted)).toEqual(['a']);
+    expect(unsure.conflictsWith).toBeUndefined();
+  });
+
+  it('does not treat the same address on another chain as a shared pool', () => {
+    const { selected } = selectOpportunities([opportunity('a', 10, [1]), opportunity('b', 5, [1], 8453)]);
+    expect(ids(selected)).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,81 @@
+import type { ArbitrageOpportunity } from '../types/index.js';
+
+// Search nodes explored before settling for the best set found so far
+const MAX_SEARCH_NODES = 100_000;
+
+/**
+ * Pick the pool-disjoint subset of one detection pass with the highest total
+ * confidence-weighted net profit: executing one opportunity moves the pools it trades
+ * through, invalidating the others that share them
+ * Dropped opportunities are marked with the ids of the selected ones they conflict with;
+ * those with no weight (e.g. zero confidence) are never selected and reported apart
+ */
+export function selectOpportunities(opportunities: ArbitrageOpportunity[]): {
+  selected: ArbitrageOpportunity[];
+  conflicting: ArbitrageOpportunity[];
+  unweighted: ArbitrageOpportunity[];
+} {
+  const weighted = opportunities.map(opportunity => ({ opportunity, weight: getWeight(opportunity), pools: getPools(opportunity) }));
+  const unweighted = weighted.filter(c => !(c.weight > 0)).map(c => c.opportunity);
+
+  // Heaviest first, so the first branch explored is the greedy choice
+  const candidates = weighted
+    .filter(c => c.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  // Suffix sums of weights bound what the undecided candidates can still add
+  const remaining: number[] = [];
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    remaining[i] = (remaining[i + 1] ?? 0) + (candidates[i]?.weight ?? 0);
+  }
+
+  let best: number[] = [];
+  let bestWeight = -Infinity;
+  let nodes = 0;
+
+  // Branch and bound over include/exclude decisions, in weight order
+  const search = (i: number, chosen: number[], weight: number, used: Set<string>) => {
+    if (nodes++ > MAX_SEARCH_NODES) return;
+    if (weight > bestWeight) {
+      best = [...chosen];
+      bestWeight = weight;
+    }
+    const candidate = candidates[i];
+    if (!candidate || weight + (remaining[i] ?? 0) <= bestWeight) return;
+
+    if (!candidate.pools.some(pool => used.has(pool))) {
+      const next = new Set(used);
+      for (const pool of candidate.pools) next.add(pool);
+      search(i + 1, [...chosen, i], weight + candidate.weight, next);
+    }
+    search(i + 1, chosen, weight, used);
+  };
+  search(0, [], 0, new Set());
+
+  const chosen = new Set(best);
+  const selected = candidates.filter((_, i) => chosen.has(i));
+  const conflicting = candidates.filter((_, i) => !chosen.has(i));
+
+  for (const { opportunity, pools } of conflicting) {
+    opportunity.conflictsWith = selected
+      .filter(s => s.pools.some(pool => pools.includes(pool)))
+      .map(s => s.opportunity.id);
+  }
+
+  return {
+    selected: selected.map(c => c.opportunity),
+    conflicting: conflicting.map(c => c.opportunity),
+    unweighted,
+  };
+}
+
+function getWeight(opportunity: ArbitrageOpportunity): number {
+  return opportunity.netProfitUsd * opportunity.confidence;
+}
+
+/**
+ * Pools an opportunity trades through, keyed by chain (pools on different chains never conflict)
+ */
+function getPools(opportunity: ArbitrageOpportunity): string[] {
+  return Array.from(new Set(opportunity.path.map(step => `${opportunity.chain}-${step.pool.toLowerCase()}`)));
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { PriceFeed } from './price-feed.js';
+
+// No feed lookups below reach the RPC: only tokens without a feed are quoted
+const priceFeed = new PriceFeed('http://127.0.0.1:1');
+
+describe('PriceFeed', () => {
+  it('has feeds for Arbitrum WBTC and USD₮0 and for USDT', () => {
+    expect(priceFeed.hasTokenFeed('0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f')).toBe(true);
+    expect(priceFeed.hasTokenFeed('0xfd086bc7cd5c481dcc9c85ebe478a1c0b69fcbb9')).toBe(true);
+    expect(priceFeed.hasTokenFeed('0xdAC17F958D2ee523a2206206994597C13D831ec7')).toBe(true);
+  });
+
+  it('values known stablecoins without a feed at $1', async () => {
+    expect(await priceFeed.getTokenQuote('0x40D16FC0246aD3160Ccc09B8D0D3A2cD28aE6C2f')).toEqual({ price: 1, source: 'assumed' });
+  });
+
+  it('has no price for other tokens without a feed', async () => {
+    expect(await priceFeed.getTokenQuote('0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22')).toBeNull();
+    expect(await priceFeed.getTokenPrice('0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22')).toBeNull();
+  });
+});
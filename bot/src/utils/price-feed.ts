@@ -9,6 +9,7 @@ const CHAINLINK_FEEDS: Record<string, Address> = {
   'ETH/USD': '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
   'BTC/USD': '0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c',
   'USDC/USD': '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+  'USDT/USD': '0x3E7d1eAB13ad0104d2750B8863b489D65364e32D',
   'DAI/USD': '0xAed0c38402a5d19df6E4c03F4E2DceD6e29c1ee9',
   'LINK/USD': '0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c',
   'ARB/USD': '0x31697852a68433DbCc2Ff612c516d69E3D9bd08F',
@@ -26,29 +27,59 @@ const TOKEN_FEEDS: Record<string, string> = {
   '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2': 'ETH/USD', // WETH
   '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599': 'BTC/USD', // WBTC
   '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48': 'USDC/USD', // USDC
-  '0x6B175474E89094C44Da98b954EedefdFD691903dCB': 'DAI/USD', // DAI
+  '0xdAC17F958D2ee523a2206206994597C13D831ec7': 'USDT/USD', // USDT
+  '0x6B175474E89094C44Da98b954EedeAC495271d0F': 'DAI/USD', // DAI
   
   // Arbitrum
   '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1': 'ETH/USD', // WETH
+  '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f': 'BTC/USD', // WBTC
   '0xaf88d065e77c8cC2239327C5EDb3A432268e5831': 'USDC/USD', // USDC
+  '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9': 'USDT/USD', // USD₮0
   '0x912CE59144191C1204E64559FE8253a0e49E6548': 'ARB/USD', // ARB
   
+  // Base and Optimism
+  '0x4200000000000000000000000000000000000006': 'ETH/USD', // WETH (same address on both)
+
   // Base
-  '0x4200000000000000000000000000000000000006': 'ETH/USD', // WETH
   '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913': 'USDC/USD', // USDC
   
   // Optimism
-  '0x4200000000000000000000000000000000000006': 'ETH/USD', // WETH (same address)
   '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85': 'USDC/USD', // USDC
+  '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58': 'USDT/USD', // USDT
   '0x4200000000000000000000000000000000000042': 'OP/USD', // OP
 };
 
+// Stablecoins without a feed of their own, valued at $1
+const STABLECOINS = new Set([
+  '0x40D16FC0246aD3160Ccc09B8D0D3A2cD28aE6C2f', // GHO (Ethereum)
+  '0xFF970A61A04b1cA14834A43f5dE4533eBDDB5CC8', // USDC.e (Arbitrum)
+  '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA', // USDbC (Base)
+  '0x7F5c764cBc14f9669B88837ca1490cCa17c31607', // USDC.e (Optimism)
+].map(token => token.toLowerCase()));
+
+/**
+ * Feed for a token address, matched case-insensitively
+ */
+function getFeedName(tokenAddress: Address): string | undefined {
+  const needle = tokenAddress.toLowerCase();
+  return Object.entries(TOKEN_FEEDS).find(([token]) => token.toLowerCase() === needle)?.[1];
+}
+
 interface PriceData {
   price: number;
   decimals: number;
   updatedAt: Date;
 }
 
+/**
+ * USD price of a token and where it came from
+ */
+export interface TokenQuote {
+  price: number;
+  source: string; // e.g. 'chainlink:ETH/USD', or 'assumed' for stablecoins without a feed
+  updatedAt?: Date; // When the source last updated the price, if it reports it
+}
+
 export class PriceFeed {
   private client;
   private cache: Map<string, { data: PriceData; timestamp: number }> = new Map();
@@ -109,20 +140,34 @@ export class PriceFeed {
     }
   }
 
+  /**
+   * Whether a token has a Chainlink feed (getTokenPrice prices only known stablecoins without one)
+   */
+  hasTokenFeed(tokenAddress: Address): boolean {
+    return getFeedName(tokenAddress) !== undefined;
+  }
+
   /**
    * Get price for a token address
    */
   async getTokenPrice(tokenAddress: Address): Promise<number | null> {
-    const feedName = TOKEN_FEEDS[tokenAddress.toLowerCase()] || TOKEN_FEEDS[tokenAddress];
+    return (await this.getTokenQuote(tokenAddress))?.price ?? null;
+  }
+
+  /**
+   * Get price for a token address, with its source and update time
+   * Null for tokens with neither a feed nor a place in the known stablecoins
+   */
+  async getTokenQuote(tokenAddress: Address): Promise<TokenQuote | null> {
+    const feedName = getFeedName(tokenAddress);
     if (!feedName) {
-      // Default to USDC = $1 for unknown stablecoins
-      const symbol = tokenAddress.slice(0, 10);
-      logger.debug({ tokenAddress: symbol }, 'Unknown token, assuming stablecoin');
-      return 1;
+      if (STABLECOINS.has(tokenAddress.toLowerCase())) return { price: 1, source: 'assumed' };
+      logger.debug({ tokenAddress }, 'No price feed for token');
+      return null;
     }
 
     const data = await this.getPrice(feedName);
-    return data?.price ?? null;
+    return data ? { price: data.price, source: `chainlink:${feedName}`, updatedAt: data.updatedAt } : null;
   }
 
   /**
@@ -168,7 +213,7 @@ export class PriceFeed {
    * Preload common prices
    */
   async preload(): Promise<void> {
-    const feeds = ['ETH/USD', 'BTC/USD', 'USDC/USD', 'ARB/USD', 'OP/USD'];
+    const feeds = ['ETH/USD', 'BTC/USD', 'USDC/USD', 'USDT/USD', 'ARB/USD', 'OP/USD'];
     await Promise.all(feeds.map(f => this.getPrice(f)));
     logger.info({ feeds: feeds.length }, 'Price feeds preloaded');
   }
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountOut } from './uniswap-v2-math.js';
+import { getOptimalConstantProductInput, maximizeProfit, splitAmount, sqrt, type ConstantProductHop } from './sizing-math.js';
+
+// WETH -> USDC on a pool pricing WETH at 2000, back to WETH on one pricing it at 1960
+const hops: ConstantProductHop[] = [
+  { reserveIn: 1000n * 10n ** 18n, reserveOut: 2_000_000n * 10n ** 6n, feeBps: 30 },
+  { reserveIn: 1_960_000n * 10n ** 6n, reserveOut: 1000n * 10n ** 18n, feeBps: 30 },
+];
+
+const profitAt = (premiumBps: bigint) => (amountIn: bigint): bigint => {
+  const amountOut = hops.reduce((amount, hop) => getAmountOut(hop.reserveIn, hop.reserveOut, amount, hop.feeBps), amountIn);
+  return amountOut - amountIn - (amountIn * premiumBps) / 10_000n;
+};
+
+describe('getOptimalConstantProductInput', () => {
+  it.each([0n, 5n])('peaks the profit of the path (premium %s bps)', premiumBps => {
+    const profit = profitAt(premiumBps);
+    const optimal = getOptimalConstantProductInput(hops, premiumBps);
+    const step = optimal / 1000n;
+
+    expect(optimal).toBeGreaterThan(0n);
+    expect(profit(optimal)).toBeGreaterThanOrEqual(profit(optimal - step));
+    expect(profit(optimal)).toBeGreaterThanOrEqual(profit(optimal + step));
+
+    // As profitable as a numerical search, to within the rounding of the 6-decimal
+    // intermediate amount (about 1e-8 of the profit)
+    const searched = maximizeProfit(profit, 100n * 10n ** 18n);
+    expect((searched.profit - profit(optimal)) * 10n ** 7n).toBeLessThanOrEqual(searched.profit);
+  });
+
+  it('sizes smaller when a flashloan premium is charged', () => {
+    expect(getOptimalConstantProductInput(hops, 5n)).toBeLessThan(getOptimalConstantProductInput(hops, 0n));
+  });
+
+  it('returns 0 for an unprofitable path', () => {
+    // The same pools the other way round: sell WETH at 1960, buy it back at 2000
+    const reversed: ConstantProductHop[] = [
+      { reserveIn: 1000n * 10n ** 18n, reserveOut: 1_960_000n * 10n ** 6n, feeBps: 30 },
+      { reserveIn: 2_000_000n * 10n ** 6n, reserveOut: 1000n * 10n ** 18n, feeBps: 30 },
+    ];
+    expect(getOptimalConstantProductInput(reversed)).toBe(0n);
+    expect(getOptimalConstantProductInput([{ reserveIn: 0n, reserveOut: 10n ** 18n, feeBps: 30 }])).toBe(0n);
+  });
+});
+
+describe('maximizeProfit', () => {
+  it('finds the peak of a unimodal function', () => {
+    const peak = 123_456_789n;
+    const { amountIn, profit } = maximizeProfit(x => -((x - peak) * (x - peak)), 10n ** 12n);
+    expect(amountIn - peak).toBeLessThanOrEqual(1n);
+    expect(peak - amountIn).toBeLessThanOrEqual(1n);
+    expect(profit).toBeLessThanOrEqual(0n);
+  });
+});
+
+describe('splitAmount', () => {
+  const pool = (reserveIn: bigint, reserveOut: bigint) => (amountIn: bigint) => getAmountOut(reserveIn, reserveOut, amountIn, 30);
+
+  it('splits evenly across identical pools', () => {
+    const legs = splitAmount([pool(10n ** 21n, 10n ** 21n), pool(10n ** 21n, 10n ** 21n)], 16n * 10n ** 18n);
+    expect(legs?.map(leg => leg.amountIn)).toEqual([8n * 10n ** 18n, 8n * 10n ** 18n]);
+  });
+
+  it('sends more to the deeper pool and keeps the total', () => {
+    const amountIn = 10n ** 19n;
+    const legs = splitAmount([pool(10n ** 21n, 10n ** 21n), pool(3n * 10n ** 21n, 3n * 10n ** 21n)], amountIn);
+    expect(legs).not.toBeNull();
+    const [shallow, deep] = legs ?? [];
+    expect(deep?.amountIn).toBeGreaterThan(shallow?.amountIn ?? 0n);
+    expect((shallow?.amountIn ?? 0n) + (deep?.amountIn ?? 0n)).toBe(amountIn);
+  });
+
+  it('returns null when no venue can quote a chunk', () => {
+    expect(splitAmount([() => null, () => null], 10n ** 18n)).toBeNull();
+  });
+});
+
+describe('sqrt', () => {
+  it.each([
+    [0n, 0n],
+    [1n, 1n],
+    [15n, 3n],
+    [16n, 4n],
+    [10n ** 36n, 10n ** 18n],
+    [2n ** 256n - 1n, 2n ** 128n - 1n],
+  ])('sqrt(%s) = %s', (value, expected) => {
+    expect(sqrt(value)).toBe(expected);
+  });
+});
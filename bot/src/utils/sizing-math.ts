@@ -0,0 +1,124 @@
+// Profit-maximizing input size for an arbitrage cycle
+
+const FEE_DENOMINATOR = 100_000n; // 0.1 bps, as in uniswap-v2-math
+const BPS = 10_000n;
+
+// Profit assigned to sizes that cannot be quoted, below any real loss
+const UNPROFITABLE = -(2n ** 255n);
+
+export interface ConstantProductHop {
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feeBps: number;
+}
+
+/**
+ * Closed-form optimum for a path of constant-product pools
+ * The path collapses into one virtual pool out = K·x / (A + B·x); profit out - x·(1 + premium)
+ * peaks where (A + B·x)² = K·A / (1 + premium). Returns 0 if the path is not profitable
+ */
+export function getOptimalConstantProductInput(hops: ConstantProductHop[], premiumBps: bigint = 0n): bigint {
+  let k = 1n;
+  let a = 1n;
+  let b = 0n;
+
+  for (const hop of hops) {
+    if (hop.reserveIn <= 0n || hop.reserveOut <= 0n) return 0n;
+    const gamma = FEE_DENOMINATOR - BigInt(Math.round(hop.feeBps * 10));
+    const reserveIn = hop.reserveIn * FEE_DENOMINATOR;
+    // Compose y = K·x / (A + B·x) with out = γ·r_out·y / (r_in + γ·y)
+    [k, a, b] = [gamma * hop.reserveOut * k, reserveIn * a, reserveIn * b + gamma * k];
+  }
+  if (b === 0n) return 0n;
+
+  const target = sqrt((k * a * BPS) / (BPS + premiumBps));
+  return target > a ? (target - a) / b : 0n;
+}
+
+/**
+ * Maximize a unimodal profit function over [0, max] by ternary search on bigint sizes
+ * Returns the best size found and its profit (null profits count as unprofitable)
+ */
+export function maximizeProfit(
+  profitAt: (amountIn: bigint) => bigint | null,
+  max: bigint,
+  iterations = 64
+): { amountIn: bigint; profit: bigint } {
+  const evaluate = (x: bigint) => (x > 0n ? profitAt(x) ?? UNPROFITABLE : UNPROFITABLE);
+  let lo = 0n;
+  let hi = max;
+
+  for (let i = 0; i < iterations && hi - lo > 2n; i++) {
+    const third = (hi - lo) / 3n;
+    const m1 = lo + third;
+    const m2 = hi - third;
+    if (evaluate(m1) < evaluate(m2)) {
+      lo = m1;
+    } else {
+      hi = m2;
+    }
+  }
+
+  const amountIn = (lo + hi) / 2n;
+  return { amountIn, profit: evaluate(amountIn) };
+}
+
+/**
+ * Split an amount across parallel venues in equal chunks, each chunk going to the venue with
+ * the best marginal output, which equalizes their marginal prices to within one chunk
+ * Returns each venue's share and output, or null if some chunk cannot be quoted anywhere
+ */
+export function splitAmount(
+  quotes: ((amountIn: bigint) => bigint | null)[],
+  amountIn: bigint,
+  chunks = 16
+): { amountIn: bigint; amountOut: bigint }[] | null {
+  if (quotes.length === 1) {
+    const amountOut = quotes[0]?.(amountIn) ?? null;
+    return amountOut === null ? null : [{ amountIn, amountOut }];
+  }
+
+  const legs = quotes.map(() => ({ amountIn: 0n, amountOut: 0n }));
+  const chunk = amountIn / BigInt(chunks);
+  let remaining = amountIn;
+
+  while (remaining > 0n) {
+    const size = chunk > 0n && remaining > chunk ? chunk : remaining;
+    let best = -1;
+    let bestOut = 0n;
+
+    quotes.forEach((quote, i) => {
+      const leg = legs[i];
+      const amountOut = leg && quote(leg.amountIn + size);
+      if (!leg || amountOut === null || amountOut === undefined) return;
+      if (best === -1 || amountOut - leg.amountOut > bestOut - (legs[best]?.amountOut ?? 0n)) {
+        best = i;
+        bestOut = amountOut;
+      }
+    });
+
+    const leg = legs[best];
+    if (!leg) return null;
+    leg.amountIn += size;
+    leg.amountOut = bestOut;
+    remaining -= size;
+  }
+
+  return legs;
+}
+
+/**
+ * Integer square root (floor), by Newton's method from above
+ */
+export function sqrt(value: bigint): bigint {
+  if (value < 0n) throw new Error('Square root of negative number');
+  if (value < 2n) return value;
+
+  let x = 1n << BigInt(Math.ceil(value.toString(2).length / 2));
+  let y = (x + value / x) >> 1n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) >> 1n;
+  }
+  return x;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountOutMins, getMinProfit } from './slippage.js';
+
+describe('getMinProfit', () => {
+  it('takes the tolerance off the expected profit', () => {
+    expect(getMinProfit(10_000n, 50)).toBe(9_950n);
+    expect(getMinProfit(10n ** 18n, 0)).toBe(10n ** 18n);
+  });
+
+  it('is 0 for a non-positive profit', () => {
+    expect(getMinProfit(0n, 50)).toBe(0n);
+    expect(getMinProfit(-5n, 50)).toBe(0n);
+  });
+});
+
+describe('getAmountOutMins', () => {
+  it('spreads the shortfall along the hops, ending at the minimum output', () => {
+    // 2% of the final output may be lost: hop k of 3 gets k/3 of it
+    expect(getAmountOutMins([[1000n], [2000n], [1100n]], 1078n)).toEqual([[994n], [1974n], [1078n]]);
+  });
+
+  it('applies the same fraction to every pool of a split first hop', () => {
+    // 110 of 1510 (7.3%) may be lost, half of it on the first hop
+    expect(getAmountOutMins([[600n, 400n], [1010n, 500n]], 1400n)[0]).toEqual([579n, 386n]);
+  });
+
+  it('allows the last pool of a later split hop the whole hop\'s shortfall', () => {
+    // That pool swaps what the hop received, so it also takes the first hop's shortfall:
+    // 7.3% of the hop's 1510 rather than of its own 500
+    expect(getAmountOutMins([[600n, 400n], [1010n, 500n]], 1400n)[1]).toEqual([937n, 390n]);
+    expect(getAmountOutMins([[600n, 400n], [1010n, 100n]], 1000n)[1]).toEqual([910n, 0n]);
+  });
+
+  it('keeps the final floor at or above the minimum output', () => {
+    const hops = [[123_456_789n], [987_654_321n], [1_000_003_333n]];
+    const mins = getAmountOutMins(hops, 999_000_001n);
+    expect(mins[2]?.[0]).toBeGreaterThanOrEqual(999_000_001n);
+  });
+
+  it('allows no shortfall when the minimum is at or above the quote', () => {
+    expect(getAmountOutMins([[500n], [1000n]], 1200n)).toEqual([[500n], [1000n]]);
+  });
+
+  it('sets no floors without a quoted output', () => {
+    expect(getAmountOutMins([[500n], [0n]], 0n)).toEqual([[0n], [0n]]);
+  });
+});
@@ -0,0 +1,41 @@
+const WAD = 10n ** 18n;
+
+/**
+ * Least profit the contract should accept: the expected profit less the share of it (in bps)
+ * the trade may come in short
+ */
+export function getMinProfit(expectedProfit: bigint, maxProfitShortfallBps: number): bigint {
+  if (expectedProfit <= 0n) return 0n;
+  return (expectedProfit * BigInt(10_000 - maxProfitShortfallBps)) / 10_000n;
+}
+
+/**
+ * Minimum output of every swap of a route, given each hop's quoted outputs (one per pool of
+ * a split hop) and the least the last hop may return
+ * The budget between the quoted and minimum final output is spread along the route: hop k of
+ * n may come in k/n of it short of its quote, so a path front-run early reverts at that hop
+ * instead of after the remaining swaps
+ * After the first hop, the last pool of a hop swaps whatever the hop received (see
+ * toContractSwaps), so it takes the shortfall of the hops before on top of its own and is
+ * allowed the whole hop's share; the contract's minProfit check still bounds the final output
+ */
+export function getAmountOutMins(hopOutputs: bigint[][], minOutput: bigint): bigint[][] {
+  const expectedOutput = (hopOutputs[hopOutputs.length - 1] ?? []).reduce((sum, out) => sum + out, 0n);
+  if (expectedOutput <= 0n) return hopOutputs.map(hop => hop.map(() => 0n));
+
+  // Shortfall allowed on the final output, as a fraction of it; it compounds through the
+  // hops, so each hop gets the same fraction of its own quote
+  const shortfall = expectedOutput > minOutput ? expectedOutput - minOutput : 0n;
+  const budget = (shortfall * WAD + expectedOutput - 1n) / expectedOutput;
+  const hops = BigInt(hopOutputs.length);
+
+  return hopOutputs.map((hop, k) => {
+    const allowance = (amount: bigint) => (amount * budget * BigInt(k + 1)) / (hops * WAD);
+    const hopOutput = hop.reduce((sum, out) => sum + out, 0n);
+    return hop.map((out, i) => {
+      if (k === 0 || i < hop.length - 1) return out - allowance(out);
+      const min = out - allowance(hopOutput);
+      return min > 0n ? min : 0n;
+    });
+  });
+}
@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountOut } from './solidly-math.js';
+
+// Expected values are what Velodrome V2 Pool.getAmountOut returns for the same reserves and fee
+
+describe('getAmountOut', () => {
+  it.each([
+    ['stable USDC -> DAI', 10n ** 10n, 2_500_000n * 10n ** 6n, 2_400_000n * 10n ** 18n, 5, true, 6, 18, 9994772013987133932870n],
+    ['stable USDC -> DAI, large', 5n * 10n ** 11n, 2_500_000n * 10n ** 6n, 2_400_000n * 10n ** 18n, 5, true, 6, 18, 496682102535470009043127n],
+    ['stable DAI -> USDC', 10n ** 22n, 2_400_000n * 10n ** 18n, 2_500_000n * 10n ** 6n, 5, true, 18, 6, 9995125414n],
+    ['volatile WETH -> USDC', 10n * 10n ** 18n, 1500n * 10n ** 18n, 4_500_000n * 10n ** 6n, 30, false, 18, 6, 29712510844n],
+  ])('%s', (_, amountIn, reserveIn, reserveOut, feeBps, stable, decimalsIn, decimalsOut, expected) => {
+    expect(getAmountOut(reserveIn, reserveOut, amountIn, feeBps, stable, decimalsIn, decimalsOut)).toBe(expected);
+  });
+
+  it('returns 0 against an empty reserve', () => {
+    expect(getAmountOut(0n, 10n ** 18n, 10n ** 18n, 5, true, 18, 18)).toBe(0n);
+  });
+});
@@ -0,0 +1,106 @@
+// Swap math for Solidly-style pools (Velodrome V2, Aerodrome), ported from Pool.sol
+
+// ============ Constants ============
+
+const PRECISION = 10n ** 18n;
+const FEE_DENOMINATOR = 10000n;
+const MAX_ITERATIONS = 255;
+
+// ============ Stable Invariant ============
+
+/**
+ * x³y + y³x for balances already normalized to 18 decimals
+ */
+function f(x0: bigint, y: bigint): bigint {
+  const a = (x0 * y) / PRECISION;
+  const b = (x0 * x0) / PRECISION + (y * y) / PRECISION;
+  return (a * b) / PRECISION;
+}
+
+/**
+ * Derivative of f with respect to y
+ */
+function d(x0: bigint, y: bigint): bigint {
+  return (3n * x0 * ((y * y) / PRECISION)) / PRECISION + (((x0 * x0) / PRECISION) * x0) / PRECISION;
+}
+
+/**
+ * Newton's method for the y that keeps f(x0, y) = xy
+ */
+function getY(x0: bigint, xy: bigint, y: bigint): bigint {
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const k = f(x0, y);
+    if (k < xy) {
+      let dy = ((xy - k) * PRECISION) / d(x0, y);
+      if (dy === 0n) {
+        if (k === xy) return y;
+        if (f(x0, y + 1n) > xy) return y + 1n;
+        dy = 1n;
+      }
+      y += dy;
+    } else {
+      let dy = ((k - xy) * PRECISION) / d(x0, y);
+      if (dy === 0n) {
+        if (k === xy || f(x0, y - 1n) < xy) return y;
+        dy = 1n;
+      }
+      y -= dy;
+    }
+  }
+
+  throw new Error('Stable pool y did not converge');
+}
+
+// ============ Quoting ============
+
+/**
+ * Output of a swap, matching Pool.getAmountOut
+ * Stable pools price with x³y + y³x after normalizing both sides to 18 decimals,
+ * volatile pools with x·y = k. The fee (basis points) is taken from the input first.
+ */
+export function getAmountOut(
+  reserveIn: bigint,
+  reserveOut: bigint,
+  amountIn: bigint,
+  feeBps: number,
+  stable: boolean,
+  decimalsIn: number,
+  decimalsOut: number
+): bigint {
+  if (amountIn <= 0n || reserveIn === 0n || reserveOut === 0n) return 0n;
+
+  const amountInAfterFee = amountIn - (amountIn * BigInt(feeBps)) / FEE_DENOMINATOR;
+
+  if (!stable) {
+    return (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee);
+  }
+
+  const scaleIn = 10n ** BigInt(decimalsIn);
+  const scaleOut = 10n ** BigInt(decimalsOut);
+
+  const x = (reserveIn * PRECISION) / scaleIn;
+  const y = (reserveOut * PRECISION) / scaleOut;
+  const xy = f(x, y);
+
+  const dx = (amountInAfterFee * PRECISION) / scaleIn;
+  const dy = y - getY(x + dx, xy, y);
+
+  return dy > 0n ? (dy * scaleOut) / PRECISION : 0n;
+}
+
+/**
+ * Exchange rate (raw token units) for a probe-sized swap (one whole token by default), used for graph weights
+ */
+export function getSpotRate(
+  reserveIn: bigint,
+  reserveOut: bigint,
+  feeBps: number,
+  stable: boolean,
+  decimalsIn: number,
+  decimalsOut: number,
+  amountIn: bigint = 10n ** BigInt(decimalsIn)
+): number {
+  if (amountIn <= 0n) return 0;
+  const amountOut = getAmountOut(reserveIn, reserveOut, amountIn, feeBps, stable, decimalsIn, decimalsOut);
+  return Number(amountOut) / Number(amountIn);
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { Address } from 'viem';
+import type { SwapStep } from '../types/index.js';
+import { DexType } from '../types/index.js';
+import { toContractSwaps } from './swap-steps.js';
+import { getAmountOutMins } from './slippage.js';
+import { getAmountOut } from './uniswap-v2-math.js';
+
+const token = (n: number): Address => `0x${n.toString(16).padStart(40, '0')}`;
+
+const step = (tokenIn: number, tokenOut: number, amountIn: bigint, pool: number): SwapStep => ({
+  router: token(100),
+  tokenIn: token(tokenIn),
+  tokenOut: token(tokenOut),
+  amountIn,
+  expectedAmountOut: amountIn,
+  amountOutMin: amountIn - 1n,
+  pool: token(200 + pool),
+  dexType: DexType.UniswapV2,
+  data: '0x',
+});
+
+describe('toContractSwaps', () => {
+  it('sweeps the balance into every single-pool hop after the first', () => {
+    const path = [step(1, 2, 100n, 0), step(2, 3, 200n, 1), step(3, 1, 300n, 2)];
+    expect(toContractSwaps(path).map(s => s.amountIn)).toEqual([100n, 0n, 0n]);
+    expect(toContractSwaps(path).map(s => s.amountOutMin)).toEqual([99n, 199n, 299n]);
+  });
+
+  it('sweeps the balance into the last pool of a later split hop', () => {
+    const path = [step(1, 2, 100n, 0), step(2, 3, 120n, 1), step(2, 3, 80n, 2), step(3, 1, 300n, 3)];
+    expect(toContractSwaps(path).map(s => s.amountIn)).toEqual([100n, 120n, 0n, 0n]);
+  });
+
+  it('keeps exact amounts on a split first hop, which spends the flashloan', () => {
+    const path = [step(1, 2, 60n, 0), step(1, 2, 40n, 1), step(2, 1, 200n, 2)];
+    expect(toContractSwaps(path).map(s => s.amountIn)).toEqual([60n, 40n, 0n]);
+  });
+
+  it('carries a short hop through a later split hop without reverting', () => {
+    // Token 1 -> 2 in pool 0, 2 -> 3 split across pools 1 and 2, 3 -> 1 in pool 3
+    const reserves: [bigint, bigint][] = [[1_000_000n, 2_000_000n], [2_000_000n, 2_000_000n], [1_000_000n, 1_000_000n], [3_000_000n, 1_600_000n]];
+    const quote = (pool: number, amountIn: bigint) => {
+      const [reserveIn, reserveOut] = reserves[pool] ?? [0n, 0n];
+      return getAmountOut(reserveIn, reserveOut, amountIn, 30);
+    };
+    const hop1 = quote(0, 10_000n);
+    const legs = [(hop1 * 2n) / 3n, hop1 - (hop1 * 2n) / 3n];
+    const hop2 = [quote(1, legs[0] ?? 0n), quote(2, legs[1] ?? 0n)];
+    const hop3 = quote(3, (hop2[0] ?? 0n) + (hop2[1] ?? 0n));
+    const mins = getAmountOutMins([[hop1], hop2, [hop3]], hop3 - (hop3 - 10_000n) / 2n);
+
+    const quoted = [
+      { ...step(1, 2, 10_000n, 0), amountOutMin: mins[0]?.[0] ?? 0n },
+      { ...step(2, 3, legs[0] ?? 0n, 1), amountOutMin: mins[1]?.[0] ?? 0n },
+      { ...step(2, 3, legs[1] ?? 0n, 2), amountOutMin: mins[1]?.[1] ?? 0n },
+      { ...step(3, 1, hop3, 3), amountOutMin: mins[2]?.[0] ?? 0n },
+    ];
+
+    // Run the swaps as the contract does, with the first hop returning only its floor
+    const balances = new Map<Address, bigint>([[token(1), 10_000n]]);
+    toContractSwaps(quoted).forEach((swap, i) => {
+      const balance = balances.get(swap.tokenIn) ?? 0n;
+      const amountIn = swap.amountIn === 0n ? balance : swap.amountIn;
+      expect(amountIn).toBeLessThanOrEqual(balance);
+      const amountOut = i === 0 ? swap.amountOutMin : quote(i, amountIn);
+      expect(amountOut).toBeGreaterThanOrEqual(swap.amountOutMin);
+      balances.set(swap.tokenIn, balance - amountIn);
+      balances.set(swap.tokenOut, (balances.get(swap.tokenOut) ?? 0n) + amountOut);
+    });
+  });
+});
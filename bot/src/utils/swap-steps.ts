@@ -0,0 +1,31 @@
+import type { SwapStep } from '../types/index.js';
+
+/**
+ * Swap steps as passed to FlashloanArbitrage.executeArbitrage
+ * Consecutive steps with the same token pair are one hop split across pools. After the
+ * first hop, the last step of each hop swaps whatever balance the others left (amountIn 0),
+ * so a previous hop returning less than quoted, within its amountOutMin, shrinks that step
+ * instead of reverting the trade
+ */
+export function toContractSwaps(path: SwapStep[]) {
+  return path.map((step, i) => {
+    const firstHop = path.slice(0, i + 1).every(s => isSameHop(s, path[0]));
+    const sweep = !firstHop && !isSameHop(step, path[i + 1]);
+
+    return {
+      router: step.router,
+      tokenIn: step.tokenIn,
+      tokenOut: step.tokenOut,
+      amountIn: sweep ? 0n : step.amountIn,
+      amountOutMin: step.amountOutMin,
+      data: step.data,
+      dexType: step.dexType,
+    };
+  });
+}
+
+function isSameHop(a: SwapStep, b: SwapStep | undefined): boolean {
+  return b !== undefined &&
+    a.tokenIn.toLowerCase() === b.tokenIn.toLowerCase() &&
+    a.tokenOut.toLowerCase() === b.tokenOut.toLowerCase();
+}
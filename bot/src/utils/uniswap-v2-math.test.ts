@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountOut } from './uniswap-v2-math.js';
+
+// Expected values are what UniswapV2Library.getAmountOut returns (0.3% fee)
+
+describe('getAmountOut', () => {
+  it.each([
+    [10n ** 18n, 1000n * 10n ** 18n, 2_000_000n * 10n ** 6n, 1992013962n],
+    [50n * 10n ** 18n, 1000n * 10n ** 18n, 2_000_000n * 10n ** 6n, 94965947516n],
+    [10n ** 9n, 2_000_000n * 10n ** 6n, 1000n * 10n ** 18n, 498251621566649025n],
+  ])('amountIn %s', (amountIn, reserveIn, reserveOut, expected) => {
+    expect(getAmountOut(reserveIn, reserveOut, amountIn, 30)).toBe(expected);
+  });
+
+  it('returns 0 against an empty reserve', () => {
+    expect(getAmountOut(0n, 10n ** 18n, 10n ** 18n, 30)).toBe(0n);
+  });
+});
@@ -0,0 +1,22 @@
+// Constant-product (x·y = k) math, matching UniswapV2Library.getAmountOut with a configurable fee
+
+// Camelot charges fees in thousandths of a percent (0.1 bps); the result is identical for whole bps
+const FEE_DENOMINATOR = 100_000n;
+
+/**
+ * Output of a swap against reserves, with the fee taken from the input
+ */
+export function getAmountOut(reserveIn: bigint, reserveOut: bigint, amountIn: bigint, feeBps: number): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(Math.round(feeBps * 10)));
+  return (amountInWithFee * reserveOut) / (reserveIn * FEE_DENOMINATOR + amountInWithFee);
+}
+
+/**
+ * Exchange rate (raw token units) for a probe-sized swap, used for graph weights
+ */
+export function getSpotRate(reserveIn: bigint, reserveOut: bigint, feeBps: number, amountIn: bigint): number {
+  if (amountIn <= 0n) return 0;
+  return Number(getAmountOut(reserveIn, reserveOut, amountIn, feeBps)) / Number(amountIn);
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import type { V3PoolState } from '../types/index.js';
+import {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  applyLiquidityDelta,
+  applyTickLiquidityDelta,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+  quoteExactInput,
+  tickWordPosition,
+} from './uniswap-v3-math.js';
+
+// Expected values are what TickMath, and UniswapV3Pool's swap loop over SwapMath.computeSwapStep,
+// return for the same inputs
+
+describe('getSqrtRatioAtTick', () => {
+  it.each([
+    [MIN_TICK, 4295128739n],
+    [MIN_TICK + 1, 4295343490n],
+    [-50000, 6504256538020985011912221507n],
+    [-1, 79224201403219477170569942574n],
+    [0, 79228162514264337593543950336n],
+    [1, 79232123823359799118286999568n],
+    [12345, 146870458338965608271414022015n],
+    [200000, 1744244129640337381386292603617838n],
+    [MAX_TICK - 1, 1461373636630004318706518188784493106690254656249n],
+    [MAX_TICK, 1461446703485210103287273052203988822378723970342n],
+  ])('tick %i', (tick, expected) => {
+    expect(getSqrtRatioAtTick(tick)).toBe(expected);
+  });
+
+  it('rejects ticks out of range', () => {
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).toThrow();
+    expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).toThrow();
+  });
+});
+
+describe('getTickAtSqrtRatio', () => {
+  it.each([
+    [MIN_SQRT_RATIO, MIN_TICK],
+    [79228162514264337593543950336n, 0],
+    [1234567890123456789012345678n, -83237],
+    [5602277097478614198912276234240n, 85176],
+    [MAX_SQRT_RATIO - 1n, MAX_TICK - 1],
+  ])('sqrt price %s', (sqrtPriceX96, expected) => {
+    expect(getTickAtSqrtRatio(sqrtPriceX96)).toBe(expected);
+  });
+
+  it('rejects prices out of range', () => {
+    expect(() => getTickAtSqrtRatio(MIN_SQRT_RATIO - 1n)).toThrow();
+    expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).toThrow();
+  });
+});
+
+describe('quoteExactInput', () => {
+  // Tick spacing 60, 0.3% fee, price just above tick 30, with positions
+  // [-600, 600) 2e18, [-1200, -60) 5e17 and [120, 3000) 1e18
+  const createPool = (): V3PoolState => {
+    const state: V3PoolState = {
+      sqrtPriceX96: 79347087983666005045280530760n,
+      tick: 30,
+      liquidity: 0n,
+      fee: 3000,
+      tickSpacing: 60,
+      ticks: new Map(),
+      tickBitmap: new Map(),
+      minWord: -2,
+      maxWord: 1,
+    };
+    applyLiquidityDelta(state, -600, 600, 2n * 10n ** 18n);
+    applyLiquidityDelta(state, -1200, -60, 5n * 10n ** 17n);
+    applyLiquidityDelta(state, 120, 3000, 10n ** 18n);
+    return state;
+  };
+
+  it.each([
+    [true, 10n ** 15n, 999496344176202n, 79307493854271602424036357610n, 20, 0],
+    [true, 6n * 10n ** 16n, 58499317890405432n, 77421922210020849116512268206n, -462, 1],
+    [true, 8n * 10n ** 16n, 77386622252680546n, 76569871148977888774223623246n, -683, 2],
+    [false, 2n * 10n ** 16n, 19703611551231358n, 79992974023582787239111276756n, 192, 1],
+    [false, 10n ** 17n, 95758698327721060n, 83016366660173772568694987216n, 934, 2],
+  ])('zeroForOne=%s amountIn=%s', (zeroForOne, amountIn, amountOut, sqrtPriceX96After, tickAfter, ticksCrossed) => {
+    expect(quoteExactInput(createPool(), zeroForOne, amountIn)).toEqual({
+      amountIn,
+      amountOut,
+      sqrtPriceX96After,
+      tickAfter,
+      ticksCrossed,
+    });
+  });
+
+  it('returns null once the swap leaves the loaded bitmap words', () => {
+    expect(quoteExactInput(createPool(), true, 10n ** 17n)).toBeNull();
+  });
+
+  it('returns null for a zero input', () => {
+    expect(quoteExactInput(createPool(), true, 0n)).toBeNull();
+  });
+});
+
+describe('applyLiquidityDelta', () => {
+  it('counts in-range positions and restores the snapshot when burnt', () => {
+    const state: V3PoolState = {
+      sqrtPriceX96: getSqrtRatioAtTick(0),
+      tick: 0,
+      liquidity: 0n,
+      fee: 500,
+      tickSpacing: 10,
+      ticks: new Map(),
+      tickBitmap: new Map(),
+      minWord: -1,
+      maxWord: 0,
+    };
+
+    applyLiquidityDelta(state, -100, 100, 10n ** 18n);
+    applyLiquidityDelta(state, 100, 200, 10n ** 18n);
+    expect(state.liquidity).toBe(10n ** 18n);
+    expect(state.ticks.get(100)).toEqual({ liquidityGross: 2n * 10n ** 18n, liquidityNet: 0n });
+    expect(state.tickBitmap.get(tickWordPosition(-100, 10))).toBe(1n << 246n);
+
+    applyLiquidityDelta(state, -100, 100, -(10n ** 18n));
+    applyLiquidityDelta(state, 100, 200, -(10n ** 18n));
+    expect(state.liquidity).toBe(0n);
+    expect(state.ticks.size).toBe(0);
+    expect([...state.tickBitmap.values()].every(word => word === 0n)).toBe(true);
+  });
+});
+
+describe('applyTickLiquidityDelta', () => {
+  it('updates the ticks of a position already counted in range', () => {
+    const state: V3PoolState = {
+      sqrtPriceX96: getSqrtRatioAtTick(0),
+      tick: 0,
+      liquidity: 10n ** 18n, // As read from the pool after the Mint
+      fee: 500,
+      tickSpacing: 10,
+      ticks: new Map(),
+      tickBitmap: new Map(),
+      minWord: -1,
+      maxWord: 0,
+    };
+
+    applyTickLiquidityDelta(state, -100, 100, 10n ** 18n);
+    expect(state.liquidity).toBe(10n ** 18n);
+    expect(state.ticks.get(-100)).toEqual({ liquidityGross: 10n ** 18n, liquidityNet: 10n ** 18n });
+    expect(state.ticks.get(100)).toEqual({ liquidityGross: 10n ** 18n, liquidityNet: -(10n ** 18n) });
+    expect(state.tickBitmap.get(tickWordPosition(-100, 10))).toBe(1n << 246n);
+  });
+});
@@ -0,0 +1,446 @@
+import type { V3PoolState, V3TickInfo } from '../types/index.js';
+
+// ============ Constants ============
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+
+const Q96 = 1n << 96n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const FEE_DENOMINATOR = 1_000_000n;
+
+export interface V3SwapQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96After: bigint;
+  tickAfter: number;
+  ticksCrossed: number;
+}
+
+// ============ Full Math ============
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > 0n ? result + 1n : result;
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  const result = a / b;
+  return a % b > 0n ? result + 1n : result;
+}
+
+// ============ Tick Math ============
+
+const TICK_RATIOS: [number, bigint][] = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n],
+];
+
+/**
+ * Calculate sqrt(1.0001^tick) * 2^96, matching TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  const absTick = Math.abs(tick);
+  if (absTick > MAX_TICK) throw new Error(`Tick out of range: ${tick}`);
+
+  let ratio = absTick & 0x1
+    ? 0xfffcb933bd6fad37aa2d162d1a594001n
+    : 0x100000000000000000000000000000000n;
+
+  for (const [bit, multiplier] of TICK_RATIOS) {
+    if (absTick & bit) ratio = (ratio * multiplier) >> 128n;
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+/**
+ * Calculate the greatest tick whose sqrt ratio is <= sqrtPriceX96
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error(`Sqrt price out of range: ${sqrtPriceX96}`);
+  }
+
+  // Estimate with floating point, then correct against the exact ratio
+  const price = Number(sqrtPriceX96) / Number(Q96);
+  let tick = Math.floor((2 * Math.log(price)) / Math.log(1.0001));
+  tick = Math.max(MIN_TICK, Math.min(MAX_TICK - 1, tick));
+
+  while (tick > MIN_TICK && getSqrtRatioAtTick(tick) > sqrtPriceX96) tick--;
+  while (tick < MAX_TICK - 1 && getSqrtRatioAtTick(tick + 1) <= sqrtPriceX96) tick++;
+
+  return tick;
+}
+
+// ============ Sqrt Price Math ============
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+  const denominator = numerator1 + product;
+
+  // Mirror the on-chain overflow fallback so rounding matches exactly
+  if (product <= MAX_UINT256 && denominator <= MAX_UINT256) {
+    return mulDivRoundingUp(numerator1, sqrtPriceX96, denominator);
+  }
+  return divRoundingUp(numerator1, numerator1 / sqrtPriceX96 + amount);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint
+): bigint {
+  return sqrtPriceX96 + (amount * Q96) / liquidity;
+}
+
+function getNextSqrtPriceFromInput(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceX96, liquidity, amountIn)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceX96, liquidity, amountIn);
+}
+
+export function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96
+    ? [sqrtRatioBX96, sqrtRatioAX96]
+    : [sqrtRatioAX96, sqrtRatioBX96];
+
+  const numerator1 = liquidity << 96n;
+  const numerator2 = upper - lower;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, upper), lower)
+    : mulDiv(numerator1, numerator2, upper) / lower;
+}
+
+export function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  const [lower, upper] = sqrtRatioAX96 > sqrtRatioBX96
+    ? [sqrtRatioBX96, sqrtRatioAX96]
+    : [sqrtRatioAX96, sqrtRatioBX96];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, upper - lower, Q96)
+    : mulDiv(liquidity, upper - lower, Q96);
+}
+
+// ============ Swap Math ============
+
+/**
+ * Compute a single exact-input swap step within one tick range
+ */
+function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint
+): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+
+  const sqrtRatioNextX96 = amountRemainingLessFee >= amountIn
+    ? sqrtRatioTargetX96
+    : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+  let amountOut: bigint;
+
+  if (zeroForOne) {
+    if (!max) amountIn = getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+    amountOut = getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+  } else {
+    if (!max) amountIn = getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+    amountOut = getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  }
+
+  const feeAmount = sqrtRatioNextX96 !== sqrtRatioTargetX96
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+// ============ Tick Bitmap ============
+
+function compressTick(tick: number, tickSpacing: number): number {
+  return Math.floor(tick / tickSpacing);
+}
+
+/**
+ * Word index in the tick bitmap holding the given tick
+ */
+export function tickWordPosition(tick: number, tickSpacing: number): number {
+  return compressTick(tick, tickSpacing) >> 8;
+}
+
+function mostSignificantBit(x: bigint): number {
+  return x.toString(2).length - 1;
+}
+
+function leastSignificantBit(x: bigint): number {
+  return mostSignificantBit(x & -x);
+}
+
+/**
+ * Find the next initialized tick within the current bitmap word.
+ * Returns null when the word lies outside the locally loaded snapshot.
+ */
+function nextInitializedTickWithinOneWord(
+  state: V3PoolState,
+  tick: number,
+  lte: boolean
+): { next: number; initialized: boolean } | null {
+  const compressed = compressTick(tick, state.tickSpacing);
+
+  if (lte) {
+    const wordPos = compressed >> 8;
+    const bitPos = BigInt(compressed & 0xff);
+    if (wordPos < state.minWord || wordPos > state.maxWord) return null;
+
+    const mask = (1n << bitPos) - 1n + (1n << bitPos);
+    const masked = (state.tickBitmap.get(wordPos) ?? 0n) & mask;
+    const initialized = masked !== 0n;
+    const next = initialized
+      ? (compressed - (Number(bitPos) - mostSignificantBit(masked))) * state.tickSpacing
+      : (compressed - Number(bitPos)) * state.tickSpacing;
+    return { next, initialized };
+  }
+
+  const wordPos = (compressed + 1) >> 8;
+  const bitPos = BigInt((compressed + 1) & 0xff);
+  if (wordPos < state.minWord || wordPos > state.maxWord) return null;
+
+  const mask = MAX_UINT256 ^ ((1n << bitPos) - 1n);
+  const masked = (state.tickBitmap.get(wordPos) ?? 0n) & mask;
+  const initialized = masked !== 0n;
+  const next = initialized
+    ? (compressed + 1 + (leastSignificantBit(masked) - Number(bitPos))) * state.tickSpacing
+    : (compressed + 1 + (255 - Number(bitPos))) * state.tickSpacing;
+  return { next, initialized };
+}
+
+function flipTick(state: V3PoolState, tick: number): void {
+  const compressed = compressTick(tick, state.tickSpacing);
+  const wordPos = compressed >> 8;
+  const bit = 1n << BigInt(compressed & 0xff);
+  state.tickBitmap.set(wordPos, (state.tickBitmap.get(wordPos) ?? 0n) ^ bit);
+}
+
+// ============ Pool State ============
+
+function updateTick(state: V3PoolState, tick: number, liquidityDelta: bigint, upper: boolean): void {
+  const info: V3TickInfo = state.ticks.get(tick) ?? { liquidityGross: 0n, liquidityNet: 0n };
+  const grossBefore = info.liquidityGross;
+  const grossAfter = grossBefore + liquidityDelta;
+
+  info.liquidityGross = grossAfter;
+  info.liquidityNet = upper ? info.liquidityNet - liquidityDelta : info.liquidityNet + liquidityDelta;
+
+  if ((grossBefore === 0n) !== (grossAfter === 0n)) {
+    flipTick(state, tick);
+  }
+
+  if (grossAfter === 0n) {
+    state.ticks.delete(tick);
+  } else {
+    state.ticks.set(tick, info);
+  }
+}
+
+/**
+ * Apply a Mint (positive delta) or Burn (negative delta) to the local tick snapshot
+ */
+export function applyLiquidityDelta(
+  state: V3PoolState,
+  tickLower: number,
+  tickUpper: number,
+  liquidityDelta: bigint
+): void {
+  if (liquidityDelta === 0n) return;
+
+  applyTickLiquidityDelta(state, tickLower, tickUpper, liquidityDelta);
+
+  if (state.tick >= tickLower && state.tick < tickUpper) {
+    state.liquidity += liquidityDelta;
+  }
+}
+
+/**
+ * Apply a Mint or Burn to the range's ticks only, for a snapshot whose in-range liquidity already includes it
+ */
+export function applyTickLiquidityDelta(
+  state: V3PoolState,
+  tickLower: number,
+  tickUpper: number,
+  liquidityDelta: bigint
+): void {
+  if (liquidityDelta === 0n) return;
+
+  updateTick(state, tickLower, liquidityDelta, false);
+  updateTick(state, tickUpper, liquidityDelta, true);
+}
+
+/**
+ * Apply the post-swap price, tick and in-range liquidity reported by a Swap event
+ */
+export function applySwap(
+  state: V3PoolState,
+  sqrtPriceX96: bigint,
+  tick: number,
+  liquidity: bigint
+): void {
+  state.sqrtPriceX96 = sqrtPriceX96;
+  state.tick = tick;
+  state.liquidity = liquidity;
+}
+
+/**
+ * Virtual reserves at the current price, useful for display and liquidity heuristics
+ */
+export function getVirtualReserves(state: V3PoolState): { reserve0: bigint; reserve1: bigint } {
+  if (state.sqrtPriceX96 === 0n) return { reserve0: 0n, reserve1: 0n };
+  return {
+    reserve0: (state.liquidity * Q96) / state.sqrtPriceX96,
+    reserve1: (state.liquidity * state.sqrtPriceX96) / Q96,
+  };
+}
+
+/**
+ * Fee (hundredths of a bip) charged for a swap direction
+ */
+export function getFee(state: V3PoolState, zeroForOne: boolean): number {
+  return zeroForOne ? state.fee : state.feeOneForZero ?? state.fee;
+}
+
+/**
+ * Exchange rate (raw token units) for a probe-sized swap across the loaded ticks, used for graph
+ * weights; zero if the probe would leave them. Without a probe, the marginal rate after fees
+ */
+export function getSpotRate(state: V3PoolState, zeroForOne: boolean, amountIn?: bigint): number {
+  if (amountIn !== undefined) {
+    const amountOut = quoteExactInput(state, zeroForOne, amountIn)?.amountOut;
+    return amountOut ? Number(amountOut) / Number(amountIn) : 0;
+  }
+
+  const sqrtPrice = Number(state.sqrtPriceX96) / Number(Q96);
+  const price = sqrtPrice * sqrtPrice; // token1 per token0
+  const feeFactor = 1 - getFee(state, zeroForOne) / 1_000_000;
+
+  if (price === 0 || state.liquidity === 0n) return 0;
+  return (zeroForOne ? price : 1 / price) * feeFactor;
+}
+
+/**
+ * Quote an exact-input swap across initialized ticks.
+ * Returns null if the swap would leave the loaded tick range or run out of liquidity.
+ */
+export function quoteExactInput(
+  state: V3PoolState,
+  zeroForOne: boolean,
+  amountIn: bigint
+): V3SwapQuote | null {
+  if (amountIn <= 0n) return null;
+
+  const feePips = BigInt(getFee(state, zeroForOne));
+  const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let amountRemaining = amountIn;
+  let amountOut = 0n;
+  let sqrtPriceX96 = state.sqrtPriceX96;
+  let tick = state.tick;
+  let liquidity = state.liquidity;
+  let ticksCrossed = 0;
+
+  while (amountRemaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const step = nextInitializedTickWithinOneWord(state, tick, zeroForOne);
+    if (!step) return null;
+
+    const tickNext = Math.max(MIN_TICK, Math.min(MAX_TICK, step.next));
+    const sqrtPriceNextX96 = getSqrtRatioAtTick(tickNext);
+    const sqrtPriceStartX96 = sqrtPriceX96;
+
+    const targetX96 = (zeroForOne ? sqrtPriceNextX96 < sqrtPriceLimitX96 : sqrtPriceNextX96 > sqrtPriceLimitX96)
+      ? sqrtPriceLimitX96
+      : sqrtPriceNextX96;
+
+    const result = computeSwapStep(sqrtPriceX96, targetX96, liquidity, amountRemaining, feePips);
+    sqrtPriceX96 = result.sqrtRatioNextX96;
+    amountRemaining -= result.amountIn + result.feeAmount;
+    amountOut += result.amountOut;
+
+    if (sqrtPriceX96 === sqrtPriceNextX96) {
+      if (step.initialized) {
+        const liquidityNet = state.ticks.get(tickNext)?.liquidityNet ?? 0n;
+        liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+        ticksCrossed++;
+      }
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+
+    if (liquidity < 0n) return null;
+  }
+
+  // Ran into the price limit before consuming the full input
+  if (amountRemaining !== 0n) return null;
+
+  return {
+    amountIn,
+    amountOut,
+    sqrtPriceX96After: sqrtPriceX96,
+    tickAfter: tick,
+    ticksCrossed,
+  };
+}
@@ -0,0 +1,38 @@
+import { parseAbiParameters, type Address } from 'viem';
+
+// Pool state math is shared with V3 (uniswap-v3-math.ts); this module covers what V4 adds
+
+// ============ Constants ============
+
+// Fee value in a PoolKey marking a pool whose LP fee is set by its hooks
+export const DYNAMIC_FEE_FLAG = 0x800000;
+
+// Hook permissions are encoded in the lowest bits of the hooks address
+const BEFORE_SWAP_RETURNS_DELTA_FLAG = 1n << 3n;
+const AFTER_SWAP_RETURNS_DELTA_FLAG = 1n << 2n;
+
+export const NATIVE_CURRENCY: Address = '0x0000000000000000000000000000000000000000';
+
+// SwapStep.data for a V4 hop
+export const POOL_KEY_ABI = parseAbiParameters(
+  '(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)'
+);
+
+// ============ Pool Properties ============
+
+/**
+ * Whether the pool's LP fee is chosen by its hooks instead of fixed in the key
+ */
+export function isDynamicFee(fee: number): boolean {
+  return fee === DYNAMIC_FEE_FLAG;
+}
+
+/**
+ * Whether swaps can be quoted from pool state alone
+ * Hooks allowed to return swap deltas can change amounts arbitrarily, so those
+ * pools are not modeled
+ */
+export function canQuoteLocally(hooks: Address): boolean {
+  const flags = BigInt(hooks);
+  return (flags & (BEFORE_SWAP_RETURNS_DELTA_FLAG | AFTER_SWAP_RETURNS_DELTA_FLAG)) === 0n;
+}
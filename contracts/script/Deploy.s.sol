@@ -11,15 +11,18 @@ contract DeployArbitrage is Script {
     address constant UNISWAP_V2_ROUTER_ETH = 0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D;
     address constant UNISWAP_V3_ROUTER_ETH = 0xE592427A0AEce92De3Edee1F18E0157C05861564;
     address constant SUSHISWAP_ROUTER_ETH = 0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F;
+    address constant UNISWAP_V4_POOL_MANAGER_ETH = 0x000000000004444c5dc75cB358380D2e3dE08A90;
     
     // Arbitrum
     address constant UNISWAP_V3_ROUTER_ARB = 0xE592427A0AEce92De3Edee1F18E0157C05861564;
     address constant CAMELOT_ROUTER_ARB = 0xc873fEcbd354f5A56E00E710B90EF4201db2448d;
     address constant SUSHISWAP_ROUTER_ARB = 0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506;
+    address constant UNISWAP_V4_POOL_MANAGER_ARB = 0x360E68faCcca8cA495c1B759Fd9EEe466db9FB32;
     
     // Base
     address constant UNISWAP_V3_ROUTER_BASE = 0x2626664c2603336E57B271c5C0b26F421741e481;
     address constant AERODROME_ROUTER_BASE = 0xcF77a3Ba9A5CA399B7c97c74d54e5b1Beb874E43;
+    address constant UNISWAP_V4_POOL_MANAGER_BASE = 0x498581fF718922c3f8e6A244956aF099B2652b2b;
     
     // Optimism
     address constant UNISWAP_V3_ROUTER_OP = 0xE592427A0AEce92De3Edee1F18E0157C05861564;
@@ -51,17 +54,20 @@ contract DeployArbitrage is Script {
             arbitrage.setRouterApproval(UNISWAP_V2_ROUTER_ETH, true);
             arbitrage.setRouterApproval(UNISWAP_V3_ROUTER_ETH, true);
             arbitrage.setRouterApproval(SUSHISWAP_ROUTER_ETH, true);
+            arbitrage.setRouterApproval(UNISWAP_V4_POOL_MANAGER_ETH, true);
             console2.log("Approved Ethereum mainnet routers");
         } else if (chainId == 42161) {
             // Arbitrum
             arbitrage.setRouterApproval(UNISWAP_V3_ROUTER_ARB, true);
             arbitrage.setRouterApproval(CAMELOT_ROUTER_ARB, true);
             arbitrage.setRouterApproval(SUSHISWAP_ROUTER_ARB, true);
+            arbitrage.setRouterApproval(UNISWAP_V4_POOL_MANAGER_ARB, true);
             console2.log("Approved Arbitrum routers");
         } else if (chainId == 8453) {
             // Base
             arbitrage.setRouterApproval(UNISWAP_V3_ROUTER_BASE, true);
             arbitrage.setRouterApproval(AERODROME_ROUTER_BASE, true);
+            arbitrage.setRouterApproval(UNISWAP_V4_POOL_MANAGER_BASE, true);
             console2.log("Approved Base routers");
         } else if (chainId == 10) {
             // Optimism
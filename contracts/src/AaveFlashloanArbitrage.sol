@@ -8,10 +8,17 @@ import {ReentrancyGuard} from "@openzeppelin/contracts/utils/ReentrancyGuard.sol
 
 /// @title AaveFlashloanArbitrage
 /// @notice Flashloan arbitrage executor using Aave V3 (0.05% fee)
-/// @dev Use this when Balancer doesn't have sufficient liquidity
+/// @dev Use this when Balancer doesn't have sufficient liquidity, and for paths that swap
+///      through Balancer pools (the Vault cannot be swapped through during its own flashloan)
 contract AaveFlashloanArbitrage is Ownable, ReentrancyGuard {
     using SafeERC20 for IERC20;
 
+    // ============ Constants ============
+    
+    /// @notice Uniswap V4 price limits (TickMath.MIN_SQRT_PRICE + 1 / MAX_SQRT_PRICE - 1), i.e. no limit
+    uint160 internal constant MIN_SQRT_PRICE_LIMIT = 4295128740;
+    uint160 internal constant MAX_SQRT_PRICE_LIMIT = 1461446703485210103287273052203988822378723970341;
+
     // ============ Interfaces ============
     
     IPoolAddressesProvider public immutable ADDRESSES_PROVIDER;
@@ -26,6 +33,7 @@ contract AaveFlashloanArbitrage is Ownable, ReentrancyGuard {
     uint256 public dailyLoss;
     uint256 public lastResetTimestamp;
     bool public paused;
+    address private activePoolManager; // Uniswap V4 PoolManager allowed to call unlockCallback
 
     // ============ Structs ============
     
@@ -34,8 +42,9 @@ contract AaveFlashloanArbitrage is Ownable, ReentrancyGuard {
         address tokenIn;
         address tokenOut;
         uint256 amountIn;
+        uint256 amountOutMin; // Minimum tokenOut this swap must return
         bytes data;
-        uint8 dexType;
+        uint8 dexType; // 0=UniV2, 1=UniV3, 2=Curve, 3=Aerodrome/Velodrome, 4=UniV4, 5=Balancer, 6=Camelot V2, 7=Algebra
     }
     
     struct ArbitrageParams {
@@ -57,6 +66,9 @@ contract AaveFlashloanArbitrage is Ownable, ReentrancyGuard {
     error RouterNotApproved();
     error InsufficientProfit();
     error MaxLossExceeded();
+    error InvalidSwapData();
+    error InsufficientOutput();
+    error NotPoolManager();
 
     // ============ Constructor ============
     
@@ -170,12 +182,31 @@ contract AaveFlashloanArbitrage is Ownable, ReentrancyGuard {
         
         IERC20(swap.tokenIn).forceApprove(swap.router, amountIn);
         
+        uint256 outBefore = IERC20(swap.tokenOut).balanceOf(address(this));
+        
         if (swap.dexType == 0) {
             _executeV2Swap(swap.router, swap.tokenIn, swap.tokenOut, amountIn);
         } else if (swap.dexType == 1) {
             _executeV3Swap(swap.router, swap.tokenIn, swap.tokenOut, amountIn, swap.data);
+        } else if (swap.dexType == 2) {
+            _executeCurveSwap(swap.router, amountIn, swap.data);
+        } else if (swap.dexType == 3) {
+            _executeVelodromeSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn, swap.data);
+        } else if (swap.dexType == 4) {
+            _executeV4Swap(swap.router, swap.tokenIn, amountIn, swap.data);
+        } else if (swap.dexType == 5) {
+            _executeBalancerSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn, swap.data);
+        } else if (swap.dexType == 6) {
+            _executeCamelotSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn);
+        } else if (swap.dexType == 7) {
+            _executeAlgebraSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn);
+        } else {
+            revert InvalidSwapData();
+        }
+        
+        if (IERC20(swap.tokenOut).balanceOf(address(this)) - outBefore < swap.amountOutMin) {
+            revert InsufficientOutput();
         }
-        // Add more DEX types as needed
     }
     
     function _executeV2Swap(address router, address tokenIn, address tokenOut, uint256 amountIn) internal {
@@ -208,6 +239,113 @@ contract AaveFlashloanArbitrage is Ownable, ReentrancyGuard {
         
         ISwapRouter(router).exactInputSingle(params);
     }
+    
+    function _executeCurveSwap(address pool, uint256 amountIn, bytes memory data) internal {
+        (int128 i, int128 j) = abi.decode(data, (int128, int128));
+        ICurvePool(pool).exchange(i, j, amountIn, 0);
+    }
+    
+    function _executeVelodromeSwap(address router, address tokenIn, address tokenOut, uint256 amountIn, bytes memory data) internal {
+        bool stable = abi.decode(data, (bool));
+        
+        IVelodromeRouter.Route[] memory routes = new IVelodromeRouter.Route[](1);
+        routes[0] = IVelodromeRouter.Route({from: tokenIn, to: tokenOut, stable: stable, factory: address(0)});
+        
+        IVelodromeRouter(router).swapExactTokensForTokens(amountIn, 0, routes, address(this), block.timestamp);
+    }
+    
+    function _executeV4Swap(address poolManager, address tokenIn, uint256 amountIn, bytes memory data) internal {
+        IPoolManager.PoolKey memory key = abi.decode(data, (IPoolManager.PoolKey));
+        
+        bool zeroForOne = tokenIn == key.currency0;
+        if (!zeroForOne && tokenIn != key.currency1) revert InvalidSwapData();
+        
+        activePoolManager = poolManager;
+        IPoolManager(poolManager).unlock(abi.encode(key, zeroForOne, amountIn));
+        activePoolManager = address(0);
+    }
+    
+    function _executeCamelotSwap(address router, address tokenIn, address tokenOut, uint256 amountIn) internal {
+        address[] memory path = new address[](2);
+        path[0] = tokenIn;
+        path[1] = tokenOut;
+        
+        ICamelotRouter(router).swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            amountIn,
+            0,
+            path,
+            address(this),
+            address(0),
+            block.timestamp
+        );
+    }
+    
+    function _executeAlgebraSwap(address router, address tokenIn, address tokenOut, uint256 amountIn) internal {
+        IAlgebraSwapRouter.ExactInputSingleParams memory params = IAlgebraSwapRouter.ExactInputSingleParams({
+            tokenIn: tokenIn,
+            tokenOut: tokenOut,
+            recipient: address(this),
+            deadline: block.timestamp,
+            amountIn: amountIn,
+            amountOutMinimum: 0,
+            limitSqrtPrice: 0
+        });
+        
+        IAlgebraSwapRouter(router).exactInputSingle(params);
+    }
+    
+    /// @notice Swap through a Balancer pool (router is the Vault, data the Balancer PoolId)
+    function _executeBalancerSwap(address vault, address tokenIn, address tokenOut, uint256 amountIn, bytes memory data) internal {
+        bytes32 poolId = abi.decode(data, (bytes32));
+        
+        IBalancerVault.SingleSwap memory singleSwap = IBalancerVault.SingleSwap({
+            poolId: poolId,
+            kind: IBalancerVault.SwapKind.GIVEN_IN,
+            assetIn: tokenIn,
+            assetOut: tokenOut,
+            amount: amountIn,
+            userData: ""
+        });
+        IBalancerVault.FundManagement memory funds = IBalancerVault.FundManagement({
+            sender: address(this),
+            fromInternalBalance: false,
+            recipient: payable(address(this)),
+            toInternalBalance: false
+        });
+        
+        IBalancerVault(vault).swap(singleSwap, funds, 0, block.timestamp);
+    }
+    
+    /// @notice Uniswap V4 unlock callback: swap, pay the input and take the output
+    function unlockCallback(bytes calldata rawData) external returns (bytes memory) {
+        if (msg.sender != activePoolManager) revert NotPoolManager();
+        
+        (IPoolManager.PoolKey memory key, bool zeroForOne, uint256 amountIn) =
+            abi.decode(rawData, (IPoolManager.PoolKey, bool, uint256));
+        
+        int256 delta = IPoolManager(msg.sender).swap(
+            key,
+            IPoolManager.SwapParams({
+                zeroForOne: zeroForOne,
+                amountSpecified: -int256(amountIn),
+                sqrtPriceLimitX96: zeroForOne ? MIN_SQRT_PRICE_LIMIT : MAX_SQRT_PRICE_LIMIT
+            }),
+            ""
+        );
+        
+        int128 amount0 = int128(delta >> 128);
+        int128 amount1 = int128(delta);
+        (address currencyIn, address currencyOut, int128 owed, int128 received) = zeroForOne
+            ? (key.currency0, key.currency1, amount0, amount1)
+            : (key.currency1, key.currency0, amount1, amount0);
+        
+        IPoolManager(msg.sender).sync(currencyIn);
+        IERC20(currencyIn).safeTransfer(msg.sender, uint256(uint128(-owed)));
+        IPoolManager(msg.sender).settle();
+        IPoolManager(msg.sender).take(currencyOut, address(this), uint256(uint128(received)));
+        
+        return "";
+    }
 
     // ============ Admin Functions ============
     
@@ -278,3 +416,99 @@ interface ISwapRouter {
     
     function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut);
 }
+
+interface ICurvePool {
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external;
+}
+
+interface IVelodromeRouter {
+    struct Route {
+        address from;
+        address to;
+        bool stable;
+        address factory;
+    }
+    
+    function swapExactTokensForTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        Route[] calldata routes,
+        address to,
+        uint256 deadline
+    ) external returns (uint256[] memory amounts);
+}
+
+interface IPoolManager {
+    struct PoolKey {
+        address currency0;
+        address currency1;
+        uint24 fee;
+        int24 tickSpacing;
+        address hooks;
+    }
+    
+    struct SwapParams {
+        bool zeroForOne;
+        int256 amountSpecified;
+        uint160 sqrtPriceLimitX96;
+    }
+    
+    function unlock(bytes calldata data) external returns (bytes memory);
+    function swap(PoolKey memory key, SwapParams memory params, bytes calldata hookData) external returns (int256);
+    function sync(address currency) external;
+    function settle() external payable returns (uint256);
+    function take(address currency, address to, uint256 amount) external;
+}
+
+interface IBalancerVault {
+    enum SwapKind { GIVEN_IN, GIVEN_OUT }
+    
+    struct SingleSwap {
+        bytes32 poolId;
+        SwapKind kind;
+        address assetIn;
+        address assetOut;
+        uint256 amount;
+        bytes userData;
+    }
+    
+    struct FundManagement {
+        address sender;
+        bool fromInternalBalance;
+        address payable recipient;
+        bool toInternalBalance;
+    }
+    
+    function swap(
+        SingleSwap memory singleSwap,
+        FundManagement memory funds,
+        uint256 limit,
+        uint256 deadline
+    ) external payable returns (uint256 amountCalculated);
+}
+
+interface ICamelotRouter {
+    // Camelot V2 routers only offer the fee-on-transfer variant, which returns nothing
+    function swapExactTokensForTokensSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        address referrer,
+        uint256 deadline
+    ) external;
+}
+
+interface IAlgebraSwapRouter {
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 limitSqrtPrice;
+    }
+    
+    function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut);
+}
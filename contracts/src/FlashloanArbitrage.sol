@@ -17,6 +17,10 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
     /// @notice Balancer V2 Vault address (same on all chains)
     address public constant BALANCER_VAULT = 0xBA12222222228d8Ba445958a75a0704d566BF2C8;
     
+    /// @notice Uniswap V4 price limits (TickMath.MIN_SQRT_PRICE + 1 / MAX_SQRT_PRICE - 1), i.e. no limit
+    uint160 internal constant MIN_SQRT_PRICE_LIMIT = 4295128740;
+    uint160 internal constant MAX_SQRT_PRICE_LIMIT = 1461446703485210103287273052203988822378723970341;
+    
     // ============ State Variables ============
     
     /// @notice Mapping of approved DEX routers
@@ -39,6 +43,9 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
     
     /// @notice Beneficiary address for profits
     address public beneficiary;
+    
+    /// @notice Uniswap V4 PoolManager allowed to call unlockCallback (set only during a V4 swap)
+    address private activePoolManager;
 
     // ============ Structs ============
     
@@ -48,8 +55,12 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
         address tokenIn;     // Input token
         address tokenOut;    // Output token
         uint256 amountIn;    // Amount to swap (0 = use all balance)
+        uint256 amountOutMin; // Minimum tokenOut this swap must return (reverts the path early)
         bytes data;          // Encoded swap data for the router
-        uint8 dexType;       // 0=UniV2, 1=UniV3, 2=Curve, 3=Aerodrome/Velodrome
+        uint8 dexType;       // 0=UniV2, 1=UniV3, 2=Curve, 3=Aerodrome/Velodrome, 4=UniV4,
+                             // 6=Camelot V2, 7=Algebra (Camelot V3)
+                             // (5=Balancer is only supported by AaveFlashloanArbitrage: the Vault
+                             // cannot be swapped through while it is lending)
     }
     
     /// @notice Full arbitrage parameters
@@ -84,6 +95,8 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
     error DailyLossLimitExceeded();
     error InvalidSwapData();
     error SwapFailed();
+    error InsufficientOutput();
+    error NotPoolManager();
 
     // ============ Constructor ============
     
@@ -204,6 +217,8 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
         // Approve router if needed
         IERC20(swap.tokenIn).forceApprove(swap.router, amountIn);
         
+        uint256 outBefore = IERC20(swap.tokenOut).balanceOf(address(this));
+        
         if (swap.dexType == 0) {
             // UniswapV2-style swap
             _executeV2Swap(swap.router, swap.tokenIn, swap.tokenOut, amountIn, swap.data);
@@ -216,9 +231,23 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
         } else if (swap.dexType == 3) {
             // Aerodrome/Velodrome swap
             _executeVelodromeSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn, swap.data);
+        } else if (swap.dexType == 4) {
+            // Uniswap V4 swap (router is the PoolManager)
+            _executeV4Swap(swap.router, swap.tokenIn, amountIn, swap.data);
+        } else if (swap.dexType == 6) {
+            // Camelot V2 swap
+            _executeCamelotSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn);
+        } else if (swap.dexType == 7) {
+            // Algebra (Camelot V3) swap
+            _executeAlgebraSwap(swap.router, swap.tokenIn, swap.tokenOut, amountIn);
         } else {
             revert InvalidSwapData();
         }
+        
+        // Per-swap floor: a front-run hop fails here instead of at the final profit check
+        if (IERC20(swap.tokenOut).balanceOf(address(this)) - outBefore < swap.amountOutMin) {
+            revert InsufficientOutput();
+        }
     }
     
     function _executeV2Swap(
@@ -305,6 +334,98 @@ contract FlashloanArbitrage is Ownable, ReentrancyGuard {
         );
     }
 
+    function _executeV4Swap(
+        address poolManager,
+        address tokenIn,
+        uint256 amountIn,
+        bytes memory data
+    ) internal {
+        // Decode V4 params (pool key)
+        IPoolManager.PoolKey memory key = abi.decode(data, (IPoolManager.PoolKey));
+        
+        bool zeroForOne = tokenIn == key.currency0;
+        if (!zeroForOne && tokenIn != key.currency1) revert InvalidSwapData();
+        
+        activePoolManager = poolManager;
+        IPoolManager(poolManager).unlock(abi.encode(key, zeroForOne, amountIn));
+        activePoolManager = address(0);
+    }
+    
+    function _executeCamelotSwap(
+        address router,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn
+    ) internal {
+        address[] memory path = new address[](2);
+        path[0] = tokenIn;
+        path[1] = tokenOut;
+        
+        ICamelotRouter(router).swapExactTokensForTokensSupportingFeeOnTransferTokens(
+            amountIn,
+            0,
+            path,
+            address(this),
+            address(0), // No referrer
+            block.timestamp
+        );
+    }
+    
+    function _executeAlgebraSwap(
+        address router,
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn
+    ) internal {
+        // Algebra pools are unique per pair, so no fee tier is needed
+        IAlgebraSwapRouter.ExactInputSingleParams memory params = IAlgebraSwapRouter.ExactInputSingleParams({
+            tokenIn: tokenIn,
+            tokenOut: tokenOut,
+            recipient: address(this),
+            deadline: block.timestamp,
+            amountIn: amountIn,
+            amountOutMinimum: 0,
+            limitSqrtPrice: 0
+        });
+        
+        IAlgebraSwapRouter(router).exactInputSingle(params);
+    }
+    
+    /// @notice Uniswap V4 unlock callback: swap, pay the input and take the output
+    /// @dev Only callable by the PoolManager of the V4 swap in progress
+    function unlockCallback(bytes calldata rawData) external returns (bytes memory) {
+        if (msg.sender != activePoolManager) revert NotPoolManager();
+        
+        (IPoolManager.PoolKey memory key, bool zeroForOne, uint256 amountIn) =
+            abi.decode(rawData, (IPoolManager.PoolKey, bool, uint256));
+        
+        int256 delta = IPoolManager(msg.sender).swap(
+            key,
+            IPoolManager.SwapParams({
+                zeroForOne: zeroForOne,
+                amountSpecified: -int256(amountIn), // Negative = exact input
+                sqrtPriceLimitX96: zeroForOne ? MIN_SQRT_PRICE_LIMIT : MAX_SQRT_PRICE_LIMIT
+            }),
+            ""
+        );
+        
+        // BalanceDelta packs amount0 in the upper and amount1 in the lower 128 bits;
+        // negative amounts are owed to the PoolManager, positive amounts to this contract
+        int128 amount0 = int128(delta >> 128);
+        int128 amount1 = int128(delta);
+        (address currencyIn, address currencyOut, int128 owed, int128 received) = zeroForOne
+            ? (key.currency0, key.currency1, amount0, amount1)
+            : (key.currency1, key.currency0, amount1, amount0);
+        
+        // Settle the input, then take the output
+        IPoolManager(msg.sender).sync(currencyIn);
+        IERC20(currencyIn).safeTransfer(msg.sender, uint256(uint128(-owed)));
+        IPoolManager(msg.sender).settle();
+        IPoolManager(msg.sender).take(currencyOut, address(this), uint256(uint128(received)));
+        
+        return "";
+    }
+
     // ============ Admin Functions ============
     
     function setRouterApproval(address router, bool approved) external onlyOwner {
@@ -384,7 +505,35 @@ interface ISwapRouter {
 }
 
 interface ICurvePool {
-    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external returns (uint256);
+    // Declared without a return value: older pools (e.g. 3Pool) return nothing
+    function exchange(int128 i, int128 j, uint256 dx, uint256 min_dy) external;
+}
+
+interface IPoolManager {
+    struct PoolKey {
+        address currency0;
+        address currency1;
+        uint24 fee;
+        int24 tickSpacing;
+        address hooks;
+    }
+    
+    struct SwapParams {
+        bool zeroForOne;
+        int256 amountSpecified;
+        uint160 sqrtPriceLimitX96;
+    }
+    
+    function unlock(bytes calldata data) external returns (bytes memory);
+    
+    // Returns a BalanceDelta (amount0 << 128 | amount1)
+    function swap(PoolKey memory key, SwapParams memory params, bytes calldata hookData) external returns (int256);
+    
+    function sync(address currency) external;
+    
+    function settle() external payable returns (uint256);
+    
+    function take(address currency, address to, uint256 amount) external;
 }
 
 interface IVelodromeRouter {
@@ -403,3 +552,29 @@ interface IVelodromeRouter {
         uint256 deadline
     ) external returns (uint256[] memory amounts);
 }
+
+interface ICamelotRouter {
+    // Camelot V2 routers only offer the fee-on-transfer variant, which returns nothing
+    function swapExactTokensForTokensSupportingFeeOnTransferTokens(
+        uint256 amountIn,
+        uint256 amountOutMin,
+        address[] calldata path,
+        address to,
+        address referrer,
+        uint256 deadline
+    ) external;
+}
+
+interface IAlgebraSwapRouter {
+    struct ExactInputSingleParams {
+        address tokenIn;
+        address tokenOut;
+        address recipient;
+        uint256 deadline;
+        uint256 amountIn;
+        uint256 amountOutMinimum;
+        uint160 limitSqrtPrice;
+    }
+    
+    function exactInputSingle(ExactInputSingleParams calldata params) external payable returns (uint256 amountOut);
+}
@@ -15,6 +15,7 @@ contract FlashloanArbitrageTest is Test {
     address constant UNISWAP_V2_ROUTER = 0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D;
     address constant UNISWAP_V3_ROUTER = 0xE592427A0AEce92De3Edee1F18E0157C05861564;
     address constant SUSHISWAP_ROUTER = 0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F;
+    address constant UNISWAP_V4_POOL_MANAGER = 0x000000000004444c5dc75cB358380D2e3dE08A90;
     
     address owner = makeAddr("owner");
     address beneficiary = makeAddr("beneficiary");
@@ -93,6 +94,29 @@ contract FlashloanArbitrageTest is Test {
         arbitrage.executeArbitrage(params);
     }
     
+    function test_RevertsWhenSwapReturnsLessThanAmountOutMin() public {
+        // Sell the borrowed WETH for USDC, demanding far more USDC than the pool can return
+        FlashloanArbitrage.SwapStep[] memory swaps = new FlashloanArbitrage.SwapStep[](1);
+        swaps[0] = FlashloanArbitrage.SwapStep({
+            router: UNISWAP_V2_ROUTER,
+            tokenIn: WETH,
+            tokenOut: USDC,
+            amountIn: 0,
+            amountOutMin: type(uint128).max,
+            data: "",
+            dexType: 0
+        });
+        FlashloanArbitrage.ArbitrageParams memory params = FlashloanArbitrage.ArbitrageParams({
+            flashToken: WETH,
+            flashAmount: 1 ether,
+            swaps: swaps,
+            minProfit: 0
+        });
+        
+        vm.expectRevert(FlashloanArbitrage.InsufficientOutput.selector);
+        arbitrage.executeArbitrage(params);
+    }
+    
     function test_OnlyBalancerCanCallReceiveFlashLoan() public {
         IERC20[] memory tokens = new IERC20[](1);
         tokens[0] = IERC20(WETH);
@@ -108,6 +132,17 @@ contract FlashloanArbitrageTest is Test {
         arbitrage.receiveFlashLoan(tokens, amounts, feeAmounts, "");
     }
     
+    function test_OnlyActivePoolManagerCanCallUnlockCallback() public {
+        vm.prank(attacker);
+        vm.expectRevert(FlashloanArbitrage.NotPoolManager.selector);
+        arbitrage.unlockCallback("");
+        
+        // No V4 swap is in progress, so the PoolManager itself is rejected too
+        vm.prank(UNISWAP_V4_POOL_MANAGER);
+        vm.expectRevert(FlashloanArbitrage.NotPoolManager.selector);
+        arbitrage.unlockCallback("");
+    }
+    
     function test_CircuitBreakerSettings() public {
         vm.prank(owner);
         arbitrage.setCircuitBreaker(0.5 ether, 5 ether);